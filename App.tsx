@@ -4,94 +4,110 @@ import SyntaxHighlighter from "react-syntax-highlighter";
 import { atomOneDark } from "react-syntax-highlighter/dist/esm/styles/hljs";
 import Layout from "./components/Layout";
 import TerminalOutput from "./components/TerminalOutput";
+import TemplateVariableFields from "./components/TemplateVariableFields";
+import AddResourcePanel from "./components/AddResourcePanel";
+import OpenApiSpecField from "./components/OpenApiSpecField";
+import ProjectDiffPanel from "./components/ProjectDiffPanel";
 import {
   TemplateType,
   ProjectStructure,
   ArchitectureInfo,
   GeneratedFile,
   ProjectOptions,
-  DesignDecision,
 } from "./types";
 import { generateFiles } from "./services/templateService";
-import { getArchitectureExplanation } from "./services/architectureService";
-
-const DESIGN_DECISIONS: Record<TemplateType, DesignDecision[]> = {
-  [TemplateType.TYPESCRIPT_EXPRESS]: [
-    {
-      pattern: "Service Layer Pattern",
-      reason:
-        "Separates business logic from HTTP handling, improving testability and reusability.",
-      benefits: [
-        "Easy to test",
-        "Logic reuse across endpoints",
-        "Clear responsibilities",
-      ],
-    },
-    {
-      pattern: "Dependency Injection",
-      reason:
-        "Manages dependencies through containers, reducing tight coupling and improving modularity.",
-      benefits: ["Flexible testing", "Loose coupling", "Runtime configuration"],
-    },
-  ],
-  [TemplateType.GO_CLEAN_ARCH]: [
-    {
-      pattern: "Clean Architecture",
-      reason:
-        "Organizes code into concentric layers (domain, usecase, interface) with clear dependency flow.",
-      benefits: ["Framework independence", "Testable", "Scalable"],
-    },
-    {
-      pattern: "Usecase Driven",
-      reason:
-        "Each business operation is encapsulated as a self-contained usecase with defined inputs/outputs.",
-      benefits: ["Business clarity", "Easy to understand", "Atomic operations"],
-    },
-  ],
-  [TemplateType.CLI_TOOL]: [
-    {
-      pattern: "Command-Driven Architecture",
-      reason:
-        "Uses CLI framework (Commander) to parse commands, making the tool intuitive and extensible.",
-      benefits: ["User-friendly", "Easy to extend", "Standard CLI patterns"],
-    },
-    {
-      pattern: "Recursive File Processing",
-      reason:
-        "Walks and transforms file trees recursively, enabling template variable substitution at scale.",
-      benefits: ["Flexible templates", "Batch processing", "Maintainable"],
-    },
-  ],
-};
+import { checkConsistency } from "./services/consistencyChecker";
+import {
+  getArchitectureExplanation,
+  getDesignDecisions,
+} from "./services/architectureService";
+import { getTemplate, listTemplates } from "./services/templateRegistry";
+import { listFeatures, resolveFeatures } from "./services/featureRegistry";
+import { validateProjectName } from "./services/projectNameValidation";
+import {
+  addResource,
+  getResourceGenerator,
+  parseResourceFields,
+} from "./services/resourceScaffolder";
+import {
+  applyOpenApiSpec,
+  getOpenApiGenerator,
+} from "./services/openApiScaffolder";
+import {
+  resolveTemplateVariables,
+  retainTemplateVariables,
+  validateTemplateVariables,
+} from "./services/templateVariables";
 
 const App: React.FC = () => {
   const [projectName, setProjectName] = useState("");
-  const [template, setTemplate] = useState<TemplateType>(
+  const [template, setTemplate] = useState<string>(
     TemplateType.TYPESCRIPT_EXPRESS,
   );
   const [logs, setLogs] = useState<string[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [result, setResult] = useState<ProjectStructure | null>(null);
+  // The project generated before `result`, which the Changes panel diffs against
+  const [previous, setPrevious] = useState<ProjectStructure | null>(null);
   const [explanation, setExplanation] = useState<ArchitectureInfo | null>(null);
   const [selectedFile, setSelectedFile] = useState<GeneratedFile | null>(null);
   const [copied, setCopied] = useState(false);
   const [projectOptions, setProjectOptions] = useState<ProjectOptions>({
     includeTests: true,
     includeLinter: true,
+    variables: {},
+    features: [],
   });
+  const [openApiSpec, setOpenApiSpec] = useState("");
   const [showDesignInfo, setShowDesignInfo] = useState<number | null>(null);
 
+  const templateDefinition = getTemplate(template);
+  const nameValidation = validateProjectName(
+    projectName,
+    templateDefinition.ecosystem,
+  );
+  const variableValues = resolveTemplateVariables(
+    templateDefinition.variables,
+    projectName,
+    projectOptions.variables,
+  );
+  const variableErrors = validateTemplateVariables(
+    templateDefinition.variables,
+    variableValues,
+  );
+  const availableFeatures = listFeatures(template);
+  const selectedFeatures = projectOptions.features.filter((id) =>
+    availableFeatures.some((feature) => feature.id === id),
+  );
+  const enabledFeatures = resolveFeatures(selectedFeatures, template);
+  // Features pulled in only because a selected feature depends on them
+  const requiredBy = (id: string) =>
+    enabledFeatures
+      .filter((feature) => feature.dependsOn.includes(id))
+      .map((feature) => feature.name);
+  const usesOpenApiSpec =
+    openApiSpec.trim() !== "" && getOpenApiGenerator(template) !== undefined;
+
+  const toggleFeature = (id: string, checked: boolean) =>
+    setProjectOptions((prev) => ({
+      ...prev,
+      features: checked
+        ? [...prev.features, id]
+        : prev.features.filter((feature) => feature !== id),
+    }));
+
   const handleGenerate = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!projectName) return;
+    if (!nameValidation.valid || Object.keys(variableErrors).length > 0) return;
 
     setIsGenerating(true);
     setLogs((prev) => [...prev, `Starting generation...`]);
+    if (result) setPrevious(result);
     setResult(null);
     setExplanation(null);
 
     try {
-      setLogs((prev) => [...prev, `Template: ${template}`]);
+      setLogs((prev) => [...prev, `Template: ${templateDefinition.name}`]);
       setLogs((prev) => [
         ...prev,
         `Include Tests: ${projectOptions.includeTests ? "Yes" : "No"}`,
@@ -100,17 +116,52 @@ const App: React.FC = () => {
         ...prev,
         `Include Linter: ${projectOptions.includeLinter ? "Yes" : "No"}`,
       ]);
+      if (enabledFeatures.length > 0) {
+        setLogs((prev) => [
+          ...prev,
+          `Features: ${enabledFeatures.map((feature) => feature.name).join(", ")}`,
+        ]);
+      }
 
       await new Promise((r) => setTimeout(r, 800));
       setLogs((prev) => [...prev, `Reading template files...`]);
 
-      const files = generateFiles(projectName, template, projectOptions);
-      setResult({ projectName, template, files });
+      const options = { ...projectOptions, features: selectedFeatures };
+      let project: ProjectStructure = {
+        projectName,
+        template,
+        variables: variableValues,
+        options,
+        files: generateFiles(projectName, template, options),
+      };
+      if (usesOpenApiSpec) {
+        setLogs((prev) => [
+          ...prev,
+          `Generating operations from OpenAPI spec...`,
+        ]);
+        const generated = applyOpenApiSpec(project, openApiSpec);
+        project = generated.project;
+        setLogs((prev) => [
+          ...prev,
+          ...generated.warnings.map((warning) => `WARNING: ${warning}`),
+        ]);
+      }
+      const { files } = project;
+      setResult(project);
       setSelectedFile(files[0]);
 
       await new Promise((r) => setTimeout(r, 500));
       setLogs((prev) => [...prev, `Processing files...`]);
 
+      setLogs((prev) => [...prev, `Checking cross-file consistency...`]);
+      const violations = checkConsistency(files);
+      setLogs((prev) => [
+        ...prev,
+        ...violations.map(
+          (violation) => `ERROR: ${violation.path}: ${violation.message}`,
+        ),
+      ]);
+
       // Get architecture explanation
       setLogs((prev) => [...prev, `Fetching architecture details...`]);
       const archExplanation = await getArchitectureExplanation(template);
@@ -118,16 +169,42 @@ const App: React.FC = () => {
 
       setLogs((prev) => [
         ...prev,
-        `Done! Generated "${projectName}" with ${template}.`,
+        `Done! Generated "${projectName}" with ${templateDefinition.name}.`,
       ]);
     } catch (err) {
       console.error(err);
-      setLogs((prev) => [...prev, `ERROR: Backend connection failed.`]);
+      setLogs((prev) => [...prev, `ERROR: ${(err as Error).message}`]);
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const handleAddResource = (name: string, fieldList: string): boolean => {
+    if (!result) return false;
+    try {
+      const updated = addResource(result, {
+        name,
+        fields: parseResourceFields(fieldList),
+      });
+      const added = updated.files.filter(
+        (file) => !result.files.some(({ path }) => path === file.path),
+      );
+      setResult(updated);
+      setSelectedFile(added[0]);
+      setLogs((prev) => [
+        ...prev,
+        `Added resource ${name}: ${added.map((file) => file.path).join(", ")}`,
+        ...checkConsistency(updated.files).map(
+          (violation) => `ERROR: ${violation.path}: ${violation.message}`,
+        ),
+      ]);
+      return true;
+    } catch (err) {
+      setLogs((prev) => [...prev, `ERROR: ${(err as Error).message}`]);
+      return false;
+    }
+  };
+
   const handleDownloadZip = async () => {
     if (!result) return;
 
@@ -182,9 +259,36 @@ const App: React.FC = () => {
                     value={projectName}
                     onChange={(e) => setProjectName(e.target.value)}
                     placeholder="e.g. user-api"
-                    className="w-full bg-slate-950 border border-slate-800 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 transition-all outline-none mono text-sm"
+                    className={`w-full bg-slate-950 border rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 transition-all outline-none mono text-sm ${
+                      projectName && !nameValidation.valid
+                        ? "border-red-500/70"
+                        : "border-slate-800"
+                    }`}
                     required
                   />
+                  {projectName && !nameValidation.valid && (
+                    <div className="mt-2 space-y-1">
+                      {nameValidation.errors.map((error) => (
+                        <p key={error} className="text-xs text-red-400">
+                          Project name {error}
+                        </p>
+                      ))}
+                      {nameValidation.suggestion && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setProjectName(nameValidation.suggestion!)
+                          }
+                          className="text-xs text-indigo-400 hover:text-indigo-300 transition-colors"
+                        >
+                          Use{" "}
+                          <span className="mono">
+                            {nameValidation.suggestion}
+                          </span>
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <div>
@@ -224,6 +328,39 @@ const App: React.FC = () => {
                         Include ESLint Config
                       </span>
                     </label>
+                    {availableFeatures.map((feature) => {
+                      const selected = selectedFeatures.includes(feature.id);
+                      const dependents = selected ? [] : requiredBy(feature.id);
+                      return (
+                        <label
+                          key={feature.id}
+                          title={feature.description}
+                          className={`flex items-center space-x-3 p-3 bg-slate-950 border border-slate-800 rounded-xl transition-all ${
+                            dependents.length > 0
+                              ? "opacity-70 cursor-not-allowed"
+                              : "hover:border-slate-700 cursor-pointer"
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selected || dependents.length > 0}
+                            disabled={dependents.length > 0}
+                            onChange={(e) =>
+                              toggleFeature(feature.id, e.target.checked)
+                            }
+                            className="w-4 h-4 rounded accent-indigo-600"
+                          />
+                          <span className="text-sm text-slate-300 font-medium">
+                            {feature.name}
+                          </span>
+                          {dependents.length > 0 && (
+                            <span className="text-[11px] text-slate-500">
+                              required by {dependents.join(", ")}
+                            </span>
+                          )}
+                        </label>
+                      );
+                    })}
                   </div>
                 </div>
 
@@ -232,29 +369,33 @@ const App: React.FC = () => {
                     Select Template
                   </label>
                   <div className="space-y-2">
-                    {Object.values(TemplateType).map((type) => (
+                    {listTemplates().map((definition) => (
                       <button
-                        key={type}
+                        key={definition.id}
                         type="button"
-                        onClick={() => setTemplate(type)}
+                        onClick={() => {
+                          setTemplate(definition.id);
+                          setProjectOptions((prev) => ({
+                            ...prev,
+                            variables: retainTemplateVariables(
+                              definition.variables,
+                              prev.variables,
+                            ),
+                          }));
+                        }}
                         className={`w-full px-4 py-3 rounded-xl border text-left transition-all relative overflow-hidden group ${
-                          template === type
+                          template === definition.id
                             ? "bg-indigo-600/10 border-indigo-500 text-indigo-400"
                             : "bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-700 hover:bg-slate-900/50"
                         }`}
                       >
                         <div className="font-bold text-sm z-10 relative">
-                          {type}
+                          {definition.name}
                         </div>
                         <div className="text-[11px] opacity-60 mt-0.5 z-10 relative truncate">
-                          {type === TemplateType.TYPESCRIPT_EXPRESS &&
-                            "Express + Inversify + DDD"}
-                          {type === TemplateType.GO_CLEAN_ARCH &&
-                            "Golang + Wire + Clean Architecture"}
-                          {type === TemplateType.CLI_TOOL &&
-                            "Node.js + Commander + Inquirer"}
+                          {definition.subtitle}
                         </div>
-                        {template === type && (
+                        {template === definition.id && (
                           <div className="absolute right-3 top-1/2 -translate-y-1/2">
                             <div className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse"></div>
                           </div>
@@ -264,6 +405,26 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                <TemplateVariableFields
+                  definitions={templateDefinition.variables}
+                  // A cleared field stays empty while its default applies
+                  values={{ ...variableValues, ...projectOptions.variables }}
+                  errors={variableErrors}
+                  onChange={(name, value) =>
+                    setProjectOptions((prev) => ({
+                      ...prev,
+                      variables: { ...prev.variables, [name]: value },
+                    }))
+                  }
+                />
+
+                {getOpenApiGenerator(template) && (
+                  <OpenApiSpecField
+                    value={openApiSpec}
+                    onChange={setOpenApiSpec}
+                  />
+                )}
+
                 <button
                   type="submit"
                   disabled={isGenerating}
@@ -303,6 +464,10 @@ const App: React.FC = () => {
               </form>
             </div>
 
+            {result && getResourceGenerator(result.template) && (
+              <AddResourcePanel onAdd={handleAddResource} />
+            )}
+
             <TerminalOutput logs={logs} />
           </div>
 
@@ -447,6 +612,11 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Changes since the previous generation */}
+                {previous && (
+                  <ProjectDiffPanel previous={previous} current={result} />
+                )}
+
                 {/* Architecture Details */}
                 {explanation && (
                   <div className="bg-gradient-to-br from-[#1e293b] to-[#0f172a] border border-slate-700 rounded-3xl p-10 shadow-2xl relative overflow-hidden group">
@@ -530,7 +700,10 @@ const App: React.FC = () => {
                             </h4>
                           </div>
                           <div className="space-y-3">
-                            {DESIGN_DECISIONS[template].map((decision, i) => (
+                            {getDesignDecisions(
+                              result.template,
+                              result.variables,
+                            ).map((decision, i) => (
                               <div
                                 key={i}
                                 className="relative p-4 rounded-xl bg-white/5 border border-white/5 hover:border-indigo-500/30 transition-all group cursor-pointer"
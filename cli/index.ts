@@ -0,0 +1,191 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { TemplateType, TemplateVariables } from "../types";
+import { generateFiles } from "../services/templateService";
+import { applyOpenApiSpec } from "../services/openApiScaffolder";
+import { checkConsistency } from "../services/consistencyChecker";
+import { listFeatures, resolveFeatures } from "../services/featureRegistry";
+import { getTemplate, listTemplates } from "../services/templateRegistry";
+import {
+  parseVariableInput,
+  resolveTemplateVariables,
+} from "../services/templateVariables";
+import { CliArgs, parseCliArgs, USAGE } from "./parseArgs";
+import { createPrompt } from "./prompt";
+import { writeProject } from "./writeProject";
+
+const printTemplates = () => {
+  listTemplates().forEach((template) => {
+    console.log(`${template.slug}  ${template.name} (${template.subtitle})`);
+    template.variables.forEach((variable) => {
+      const fallback = JSON.stringify(variable.default);
+      console.log(
+        `    --var ${variable.name}=<${variable.type}>  default ${fallback}`,
+      );
+    });
+    listFeatures(template.id).forEach((feature) => {
+      const requires = feature.dependsOn.length
+        ? ` (requires ${feature.dependsOn.join(", ")})`
+        : "";
+      console.log(`    --feature ${feature.id}  ${feature.name}${requires}`);
+    });
+  });
+};
+
+/**
+ * Fills in whatever the flags left open, either by prompting or with the
+ * same defaults the web app uses
+ */
+const resolveArgs = async (args: CliArgs) => {
+  const prompt = args.interactive ? createPrompt() : null;
+  try {
+    const template = getTemplate(
+      args.template ??
+        (prompt ? await prompt.template() : TemplateType.TYPESCRIPT_EXPRESS),
+    );
+    const projectName =
+      args.projectName ?? (await prompt?.projectName(template.ecosystem));
+    if (!projectName) {
+      throw new Error(`Missing project name\n\n${USAGE}`);
+    }
+
+    Object.keys(args.variables)
+      .filter((name) => !template.variables.some((v) => v.name === name))
+      .forEach((name) => {
+        throw new Error(`Template ${template.slug} has no variable "${name}"`);
+      });
+    const variables: TemplateVariables = Object.fromEntries(
+      template.variables
+        .filter((definition) => definition.name in args.variables)
+        .map((definition) => [
+          definition.name,
+          parseVariableInput(definition, args.variables[definition.name]),
+        ]),
+    );
+
+    // Fails early on unknown or unsupported features
+    resolveFeatures(args.features, template.id);
+
+    if (!prompt) {
+      return { ...args, template, projectName, variables };
+    }
+
+    const includeTests = await prompt.confirm(
+      "Include tests?",
+      args.includeTests,
+    );
+    const includeLinter = await prompt.confirm(
+      "Include linter config?",
+      args.includeLinter,
+    );
+    const available = listFeatures(template.id);
+    const features =
+      args.features.length > 0 || available.length === 0
+        ? args.features
+        : await prompt.features(available);
+    const defaults = resolveTemplateVariables(
+      template.variables,
+      projectName,
+      variables,
+    );
+    for (const definition of template.variables) {
+      if (definition.name in variables) continue;
+      variables[definition.name] = await prompt.variable(
+        definition,
+        defaults[definition.name],
+      );
+    }
+    return {
+      ...args,
+      template,
+      projectName,
+      includeTests,
+      includeLinter,
+      variables,
+      features,
+    };
+  } finally {
+    prompt?.close();
+  }
+};
+
+const main = async (argv: string[]) => {
+  const args = parseCliArgs(argv);
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (args.list) {
+    printTemplates();
+    return;
+  }
+
+  const {
+    template,
+    projectName,
+    includeTests,
+    includeLinter,
+    variables,
+    features,
+  } = await resolveArgs(args);
+  // npm scripts run from the package root; INIT_CWD is where npm was invoked
+  const targetDir = path.resolve(
+    process.env.INIT_CWD ?? process.cwd(),
+    args.outDir,
+    projectName,
+  );
+
+  console.log(`Template: ${template.name}`);
+  console.log(`Include Tests: ${includeTests ? "Yes" : "No"}`);
+  console.log(`Include Linter: ${includeLinter ? "Yes" : "No"}`);
+  if (features.length > 0) {
+    console.log(`Features: ${features.join(", ")}`);
+  }
+
+  const options = { includeTests, includeLinter, variables, features };
+  let files = generateFiles(projectName, template.id, options);
+  if (args.openApi) {
+    const source = await readFile(
+      path.resolve(process.env.INIT_CWD ?? process.cwd(), args.openApi),
+      "utf8",
+    );
+    const { project, warnings } = applyOpenApiSpec(
+      {
+        projectName,
+        template: template.id,
+        variables: resolveTemplateVariables(
+          template.variables,
+          projectName,
+          variables,
+        ),
+        options,
+        files,
+      },
+      source,
+    );
+    warnings.forEach((warning) => console.warn(`WARNING: ${warning}`));
+    files = project.files;
+  }
+  // A project that fails the check would not build, so it is not written
+  const violations = checkConsistency(files);
+  if (violations.length > 0) {
+    violations.forEach((violation) =>
+      console.error(`ERROR: ${violation.path}: ${violation.message}`),
+    );
+    console.error(
+      `FAILED: "${projectName}" has ${violations.length} consistency error(s); nothing was written to ${targetDir}`,
+    );
+    process.exitCode = 1;
+    return;
+  }
+  await writeProject(targetDir, files, args.force);
+
+  console.log(
+    `SUCCESS: Generated "${projectName}" with ${files.length} files in ${targetDir}`,
+  );
+};
+
+main(process.argv.slice(2)).catch((err: Error) => {
+  console.error(`ERROR: ${err.message}`);
+  process.exitCode = 1;
+});
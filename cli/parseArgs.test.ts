@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { parseCliArgs } from "./parseArgs";
+
+describe("parseCliArgs", () => {
+  it("applies defaults", () => {
+    expect(parseCliArgs(["user-api"])).toEqual({
+      projectName: "user-api",
+      template: undefined,
+      outDir: ".",
+      includeTests: true,
+      includeLinter: true,
+      variables: {},
+      features: [],
+      openApi: undefined,
+      interactive: false,
+      force: false,
+      list: false,
+      help: false,
+    });
+  });
+
+  it("parses template, options and variables", () => {
+    const args = parseCliArgs([
+      "user-api",
+      "-t",
+      "go-clean-arch",
+      "--no-tests",
+      "--var",
+      "port=9090",
+      "-v",
+      "description=a=b",
+      "--feature",
+      "redis",
+      "--feature",
+      "kafka",
+      "--openapi",
+      "api.yaml",
+      "-f",
+    ]);
+    expect(args.template).toBe("go-clean-arch");
+    expect(args.includeTests).toBe(false);
+    expect(args.includeLinter).toBe(true);
+    expect(args.variables).toEqual({ port: "9090", description: "a=b" });
+    expect(args.features).toEqual(["redis", "kafka"]);
+    expect(args.openApi).toBe("api.yaml");
+    expect(args.force).toBe(true);
+  });
+
+  it("rejects malformed variables and extra arguments", () => {
+    expect(() => parseCliArgs(["x", "--var", "port"])).toThrow(
+      "Expected --var name=value",
+    );
+    expect(() => parseCliArgs(["x", "y"])).toThrow("Unexpected arguments: y");
+  });
+});
@@ -0,0 +1,83 @@
+import { parseArgs } from "node:util";
+
+export interface CliArgs {
+  projectName?: string;
+  template?: string;
+  outDir: string;
+  includeTests: boolean;
+  includeLinter: boolean;
+  variables: Record<string, string>;
+  features: string[];
+  openApi?: string;
+  interactive: boolean;
+  force: boolean;
+  list: boolean;
+  help: boolean;
+}
+
+export const USAGE = `Usage: temp-gen [project-name] [options]
+
+Options:
+  -t, --template <slug>     Template to generate (see --list)
+  -o, --out-dir <dir>       Directory to create the project in (default: .)
+      --no-tests            Skip test files
+      --no-linter           Skip linter configuration
+  -v, --var <name=value>    Set a template variable (repeatable)
+      --feature <id>        Add a feature module, e.g. postgres (repeatable)
+      --openapi <file>      Generate operations from an OpenAPI 3 spec
+  -i, --interactive         Prompt for anything not given as a flag
+  -f, --force               Overwrite files in an existing project directory
+  -l, --list                List templates with their variables and features
+  -h, --help                Show this help`;
+
+/**
+ * Parses command-line arguments into CLI options
+ */
+export const parseCliArgs = (argv: string[]): CliArgs => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      template: { type: "string", short: "t" },
+      "out-dir": { type: "string", short: "o", default: "." },
+      "no-tests": { type: "boolean", default: false },
+      "no-linter": { type: "boolean", default: false },
+      var: { type: "string", short: "v", multiple: true, default: [] },
+      feature: { type: "string", multiple: true, default: [] },
+      openapi: { type: "string" },
+      interactive: { type: "boolean", short: "i", default: false },
+      force: { type: "boolean", short: "f", default: false },
+      list: { type: "boolean", short: "l", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (positionals.length > 1) {
+    throw new Error(`Unexpected arguments: ${positionals.slice(1).join(" ")}`);
+  }
+
+  const variables = Object.fromEntries(
+    values.var.map((assignment) => {
+      const separator = assignment.indexOf("=");
+      if (separator <= 0) {
+        throw new Error(`Expected --var name=value, got "${assignment}"`);
+      }
+      return [assignment.slice(0, separator), assignment.slice(separator + 1)];
+    }),
+  );
+
+  return {
+    projectName: positionals[0],
+    template: values.template,
+    outDir: values["out-dir"],
+    includeTests: !values["no-tests"],
+    includeLinter: !values["no-linter"],
+    variables,
+    features: values.feature,
+    openApi: values.openapi,
+    interactive: values.interactive,
+    force: values.force,
+    list: values.list,
+    help: values.help,
+  };
+};
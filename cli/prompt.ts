@@ -0,0 +1,123 @@
+import { createInterface } from "node:readline";
+import {
+  FeatureDefinition,
+  ProjectEcosystem,
+  TemplateValue,
+  TemplateVariableDefinition,
+} from "../types";
+import { listTemplates } from "../services/templateRegistry";
+import { validateProjectName } from "../services/projectNameValidation";
+import {
+  parseVariableInput,
+  validateTemplateVariables,
+} from "../services/templateVariables";
+
+export type Prompt = ReturnType<typeof createPrompt>;
+
+/**
+ * Line-based prompts on stdin/stdout for interactive mode
+ */
+export const createPrompt = () => {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  // The line iterator buffers input, so piped answers are not dropped
+  const lines = rl[Symbol.asyncIterator]();
+
+  const ask = async (question: string, fallback?: string) => {
+    const suffix = fallback !== undefined ? ` (${fallback})` : "";
+    process.stdout.write(`? ${question}${suffix}: `);
+    const { value, done } = await lines.next();
+    if (done)
+      throw new Error("Input closed before all questions were answered");
+    const answer = String(value).trim();
+    return answer === "" && fallback !== undefined ? fallback : answer;
+  };
+
+  return {
+    close: () => rl.close(),
+
+    template: async (): Promise<string> => {
+      const templates = listTemplates();
+      templates.forEach((template, i) =>
+        console.log(`  ${i + 1}) ${template.name} - ${template.subtitle}`),
+      );
+      for (;;) {
+        const answer = await ask("Template", "1");
+        const picked =
+          templates[Number(answer) - 1] ??
+          templates.find((template) => template.slug === answer);
+        if (picked) return picked.id;
+        console.log(`  Pick a number between 1 and ${templates.length}`);
+      }
+    },
+
+    projectName: async (ecosystem: ProjectEcosystem): Promise<string> => {
+      for (;;) {
+        const name = await ask("Project name");
+        const validation = validateProjectName(name, ecosystem);
+        if (validation.valid) return name;
+        validation.errors.forEach((error) =>
+          console.log(`  Project name ${error}`),
+        );
+        if (validation.suggestion) {
+          const accept = await ask(`Use "${validation.suggestion}"? [Y/n]`);
+          if (!/^n/i.test(accept)) return validation.suggestion;
+        }
+      }
+    },
+
+    features: async (available: FeatureDefinition[]): Promise<string[]> => {
+      available.forEach((feature, i) => {
+        const requires = feature.dependsOn.length
+          ? ` (requires ${feature.dependsOn.join(", ")})`
+          : "";
+        console.log(
+          `  ${i + 1}) ${feature.name} - ${feature.description}${requires}`,
+        );
+      });
+      for (;;) {
+        const answer = await ask("Features, comma-separated (none)");
+        const picked = answer
+          .split(",")
+          .map((token) => token.trim())
+          .filter(Boolean)
+          .map(
+            (token) =>
+              available[Number(token) - 1] ??
+              available.find((feature) => feature.id === token),
+          );
+        if (picked.every(Boolean)) {
+          return [...new Set(picked.map((feature) => feature!.id))];
+        }
+        console.log(
+          `  Pick numbers between 1 and ${available.length}, or feature ids`,
+        );
+      }
+    },
+
+    confirm: async (question: string, fallback: boolean): Promise<boolean> => {
+      const answer = await ask(`${question} [${fallback ? "Y/n" : "y/N"}]`);
+      return answer === "" ? fallback : /^y/i.test(answer);
+    },
+
+    variable: async (
+      definition: TemplateVariableDefinition,
+      fallback: TemplateValue,
+    ): Promise<TemplateValue> => {
+      const hint = definition.choices
+        ? ` [${definition.choices.join("|")}]`
+        : "";
+      for (;;) {
+        const answer = await ask(
+          `${definition.label}${hint}`,
+          Array.isArray(fallback) ? fallback.join(", ") : String(fallback),
+        );
+        const value = parseVariableInput(definition, answer);
+        const error = validateTemplateVariables([definition], {
+          [definition.name]: value,
+        })[definition.name];
+        if (!error) return value;
+        console.log(`  ${definition.label} ${error}`);
+      }
+    },
+  };
+};
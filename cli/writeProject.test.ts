@@ -0,0 +1,56 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { writeProject } from "./writeProject";
+
+describe("writeProject", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "temp-gen-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const files = [
+    { path: "src/index.ts", language: "typescript", content: "new" },
+  ];
+
+  it("writes nested files", async () => {
+    await writeProject(path.join(root, "svc"), files, false);
+    expect(await readFile(path.join(root, "svc/src/index.ts"), "utf8")).toBe(
+      "new",
+    );
+  });
+
+  it("refuses an existing directory unless forced", async () => {
+    const target = path.join(root, "svc");
+    await mkdir(path.join(target, "src"), { recursive: true });
+    await writeFile(path.join(target, "src/index.ts"), "old");
+
+    await expect(writeProject(target, files, false)).rejects.toThrow(
+      "already exists",
+    );
+    expect(await readFile(path.join(target, "src/index.ts"), "utf8")).toBe(
+      "old",
+    );
+
+    await writeProject(target, files, true);
+    expect(await readFile(path.join(target, "src/index.ts"), "utf8")).toBe(
+      "new",
+    );
+  });
+
+  it("refuses paths that escape the project directory", async () => {
+    await expect(
+      writeProject(
+        path.join(root, "svc"),
+        [{ path: "../evil.txt", language: "text", content: "" }],
+        false,
+      ),
+    ).rejects.toThrow("outside the project");
+  });
+});
@@ -0,0 +1,34 @@
+import { mkdir, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { GeneratedFile } from "../types";
+
+const exists = async (target: string) =>
+  stat(target).then(
+    () => true,
+    () => false,
+  );
+
+/**
+ * Writes generated files below targetDir. Refuses to touch an existing
+ * directory unless force is set, in which case files are overwritten.
+ */
+export const writeProject = async (
+  targetDir: string,
+  files: GeneratedFile[],
+  force: boolean,
+): Promise<void> => {
+  if ((await exists(targetDir)) && !force) {
+    throw new Error(
+      `Directory ${targetDir} already exists. Use --force to overwrite it.`,
+    );
+  }
+
+  for (const file of files) {
+    const destination = path.resolve(targetDir, file.path);
+    if (!destination.startsWith(path.resolve(targetDir) + path.sep)) {
+      throw new Error(`Refusing to write outside the project: ${file.path}`);
+    }
+    await mkdir(path.dirname(destination), { recursive: true });
+    await writeFile(destination, file.content, "utf8");
+  }
+};
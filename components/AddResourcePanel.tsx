@@ -0,0 +1,68 @@
+import React, { useState } from "react";
+
+interface AddResourcePanelProps {
+  /** Returns whether the resource was added, which clears the form */
+  onAdd: (name: string, fields: string) => boolean;
+}
+
+const inputClassName =
+  "w-full bg-slate-950 border border-slate-800 rounded-lg px-4 py-2.5 text-white focus:ring-2 focus:ring-indigo-500 transition-all outline-none mono text-sm";
+
+const AddResourcePanel: React.FC<AddResourcePanelProps> = ({ onAdd }) => {
+  const [name, setName] = useState("");
+  const [fields, setFields] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (onAdd(name, fields)) {
+      setName("");
+      setFields("");
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 p-6 rounded-2xl shadow-xl">
+      <h2 className="text-xl font-bold mb-2 text-white">Add Resource</h2>
+      <p className="text-xs text-slate-500 mb-6">
+        Scaffolds CRUD endpoints for an entity and wires them into the generated
+        project.
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <span className="block text-xs text-slate-500 mb-1">Entity Name</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="BlogPost"
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <span className="block text-xs text-slate-500 mb-1">Fields</span>
+          <input
+            type="text"
+            value={fields}
+            onChange={(e) => setFields(e.target.value)}
+            placeholder="title:string, views:integer, rating?:number"
+            className={inputClassName}
+            required
+          />
+          <p className="mt-1 text-[10px] text-slate-600">
+            Types: string, number, integer, boolean. Mark optional fields with
+            "?".
+          </p>
+        </div>
+        <button
+          type="submit"
+          className="w-full py-3 rounded-xl font-bold uppercase tracking-widest text-xs text-white bg-slate-800 hover:bg-indigo-600 transition-all"
+        >
+          Add Resource
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AddResourcePanel;
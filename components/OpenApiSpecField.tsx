@@ -0,0 +1,61 @@
+import React from "react";
+
+interface OpenApiSpecFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const OpenApiSpecField: React.FC<OpenApiSpecFieldProps> = ({
+  value,
+  onChange,
+}) => {
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onChange(await file.text());
+    e.target.value = "";
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-slate-400">
+          OpenAPI Spec
+        </label>
+        <div className="flex items-center space-x-3 text-xs">
+          {value && (
+            <button
+              type="button"
+              onClick={() => onChange("")}
+              className="text-slate-500 hover:text-slate-300 transition-colors"
+            >
+              Clear
+            </button>
+          )}
+          <label className="text-indigo-400 hover:text-indigo-300 cursor-pointer transition-colors">
+            Upload
+            <input
+              type="file"
+              accept=".yaml,.yml,.json"
+              onChange={handleUpload}
+              className="hidden"
+            />
+          </label>
+        </div>
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={"openapi: 3.0.3\npaths:\n  /pets:\n    get: ..."}
+        rows={6}
+        spellCheck={false}
+        className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 transition-all outline-none mono text-xs"
+      />
+      <p className="mt-1 text-[10px] text-slate-600">
+        Optional. Paste or upload an OpenAPI 3 spec in YAML or JSON to generate
+        handlers, types and validation for each operation.
+      </p>
+    </div>
+  );
+};
+
+export default OpenApiSpecField;
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from "react";
+import { ProjectStructure } from "../types";
+import {
+  DiffLine,
+  diffLines,
+  diffProjects,
+  FileChange,
+  toHunks,
+  toSplitRows,
+} from "../services/projectDiff";
+
+interface ProjectDiffPanelProps {
+  previous: ProjectStructure;
+  current: ProjectStructure;
+}
+
+const CHANGE_BADGES: Record<FileChange, { label: string; className: string }> =
+  {
+    added: { label: "A", className: "text-emerald-400 bg-emerald-500/10" },
+    removed: { label: "D", className: "text-red-400 bg-red-500/10" },
+    modified: { label: "M", className: "text-amber-400 bg-amber-500/10" },
+  };
+
+const LINE_STYLES: Record<DiffLine["type"], string> = {
+  context: "text-slate-400",
+  added: "bg-emerald-500/10 text-emerald-300",
+  removed: "bg-red-500/10 text-red-300",
+};
+
+const LINE_MARKERS: Record<DiffLine["type"], string> = {
+  context: " ",
+  added: "+",
+  removed: "-",
+};
+
+const gutterClassName =
+  "w-12 flex-shrink-0 pr-2 text-right text-slate-600 select-none";
+
+const DiffRow: React.FC<{
+  line?: DiffLine;
+  numbers: "old" | "new" | "both";
+}> = ({ line, numbers }) => (
+  <div
+    className={`flex min-w-0 flex-1 ${line ? LINE_STYLES[line.type] : "bg-slate-900/40"}`}
+  >
+    {numbers !== "new" && (
+      <span className={gutterClassName}>{line?.oldLine}</span>
+    )}
+    {numbers !== "old" && (
+      <span className={gutterClassName}>{line?.newLine}</span>
+    )}
+    <span className="w-4 flex-shrink-0 select-none">
+      {line && LINE_MARKERS[line.type]}
+    </span>
+    <span className="whitespace-pre-wrap break-all">{line?.text}</span>
+  </div>
+);
+
+/**
+ * Files added, removed and modified since the previous generation, with a
+ * unified or side-by-side line diff of the selected one
+ */
+const ProjectDiffPanel: React.FC<ProjectDiffPanelProps> = ({
+  previous,
+  current,
+}) => {
+  const diffs = useMemo(
+    () => diffProjects(previous.files, current.files),
+    [previous, current],
+  );
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [mode, setMode] = useState<"unified" | "split">("unified");
+
+  const selected = diffs.find((diff) => diff.path === selectedPath) ?? diffs[0];
+  const hunks = useMemo(
+    () =>
+      selected
+        ? toHunks(
+            diffLines(
+              selected.before?.content ?? "",
+              selected.after?.content ?? "",
+            ),
+          )
+        : [],
+    [selected],
+  );
+
+  return (
+    <div className="bg-[#0b1222] border border-slate-800 rounded-3xl overflow-hidden shadow-[0_0_50px_-12px_rgba(0,0,0,0.5)] flex flex-col md:flex-row h-[520px]">
+      <div className="w-full md:w-64 border-r border-slate-800 bg-[#020617] p-6 flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
+            Changes
+          </h4>
+          <span className="text-[10px] bg-slate-800 text-slate-400 px-2 py-0.5 rounded-full font-mono">
+            {diffs.length} Files
+          </span>
+        </div>
+        <p className="text-[10px] text-slate-600 mb-4">
+          Since the previous generation
+          {previous.template !== current.template &&
+            ` (was ${previous.template})`}
+        </p>
+        <div className="flex-grow overflow-y-auto space-y-1 custom-scrollbar">
+          {diffs.map((diff) => (
+            <button
+              key={diff.path}
+              onClick={() => setSelectedPath(diff.path)}
+              className={`w-full flex items-center space-x-3 px-4 py-2.5 rounded-xl text-xs transition-all ${
+                selected?.path === diff.path
+                  ? "bg-indigo-600/10 text-indigo-400 ring-1 ring-indigo-500/30"
+                  : "text-slate-500 hover:text-slate-300 hover:bg-slate-900/50"
+              }`}
+            >
+              <span
+                className={`w-5 h-5 flex-shrink-0 rounded font-mono font-bold flex items-center justify-center ${CHANGE_BADGES[diff.change].className}`}
+              >
+                {CHANGE_BADGES[diff.change].label}
+              </span>
+              <span className="truncate font-medium">{diff.path}</span>
+            </button>
+          ))}
+          {diffs.length === 0 && (
+            <p className="text-xs text-slate-600">No files changed.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-grow flex flex-col min-w-0 bg-[#011627]">
+        <div className="h-12 border-b border-white/5 flex items-center px-6 justify-between bg-black/20">
+          <span className="text-xs font-mono text-slate-400 truncate">
+            {selected?.path}
+          </span>
+          <div className="flex items-center space-x-1">
+            {(["unified", "split"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`text-[10px] px-2 py-1 rounded border transition-colors capitalize ${
+                  mode === option
+                    ? "text-white bg-indigo-600/30 border-indigo-500/50"
+                    : "text-slate-500 hover:text-white bg-white/5 border-white/5"
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex-grow overflow-auto custom-scrollbar py-4 font-mono text-xs leading-6">
+          {hunks.map((hunk) => (
+            <div key={`${hunk.oldStart}-${hunk.newStart}`} className="mb-4">
+              <div className="px-4 text-indigo-400/70 bg-indigo-500/5">
+                {`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`}
+              </div>
+              {mode === "unified"
+                ? hunk.lines.map((line, i) => (
+                    <DiffRow key={i} line={line} numbers="both" />
+                  ))
+                : toSplitRows(hunk.lines).map((row, i) => (
+                    <div key={i} className="flex">
+                      <DiffRow line={row.left} numbers="old" />
+                      <div className="w-px bg-slate-800" />
+                      <DiffRow line={row.right} numbers="new" />
+                    </div>
+                  ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectDiffPanel;
@@ -0,0 +1,104 @@
+import React from "react";
+import {
+  TemplateValue,
+  TemplateVariableDefinition,
+  TemplateVariables,
+} from "../types";
+import { parseVariableInput } from "../services/templateVariables";
+
+interface TemplateVariableFieldsProps {
+  definitions: TemplateVariableDefinition[];
+  values: TemplateVariables;
+  errors: Record<string, string>;
+  onChange: (name: string, value: TemplateValue) => void;
+}
+
+const inputClassName =
+  "w-full bg-slate-950 border rounded-lg px-4 py-2.5 text-white focus:ring-2 focus:ring-indigo-500 transition-all outline-none mono text-sm";
+
+const TemplateVariableFields: React.FC<TemplateVariableFieldsProps> = ({
+  definitions,
+  values,
+  errors,
+  onChange,
+}) => {
+  if (definitions.length === 0) return null;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-400 mb-3">
+        Template Variables
+      </label>
+      <div className="space-y-3">
+        {definitions.map((definition) => {
+          const value = values[definition.name];
+          const error = errors[definition.name];
+          const borderClassName = error
+            ? "border-red-500/70"
+            : "border-slate-800";
+          const handleInput = (input: string) =>
+            onChange(definition.name, parseVariableInput(definition, input));
+
+          return (
+            <div key={definition.name}>
+              {definition.type === "boolean" ? (
+                <label className="flex items-center space-x-3 p-3 bg-slate-950 border border-slate-800 rounded-xl hover:border-slate-700 cursor-pointer transition-all">
+                  <input
+                    type="checkbox"
+                    checked={value === true}
+                    onChange={(e) =>
+                      onChange(definition.name, e.target.checked)
+                    }
+                    className="w-4 h-4 rounded accent-indigo-600"
+                  />
+                  <span className="text-sm text-slate-300 font-medium">
+                    {definition.label}
+                  </span>
+                </label>
+              ) : (
+                <>
+                  <span className="block text-xs text-slate-500 mb-1">
+                    {definition.label}
+                  </span>
+                  {definition.choices ? (
+                    <select
+                      value={String(value ?? "")}
+                      onChange={(e) => handleInput(e.target.value)}
+                      className={`${inputClassName} ${borderClassName}`}
+                    >
+                      {definition.choices.map((choice) => (
+                        <option key={choice} value={choice}>
+                          {choice}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type={definition.type === "number" ? "number" : "text"}
+                      value={
+                        Array.isArray(value)
+                          ? value.join(", ")
+                          : String(value ?? "")
+                      }
+                      min={definition.min}
+                      max={definition.max}
+                      onChange={(e) => handleInput(e.target.value)}
+                      className={`${inputClassName} ${borderClassName}`}
+                    />
+                  )}
+                </>
+              )}
+              {error && (
+                <p className="text-xs text-red-400 mt-1">
+                  {definition.label} {error}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateVariableFields;
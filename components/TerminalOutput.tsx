@@ -24,7 +24,7 @@ const TerminalOutput: React.FC<TerminalOutputProps> = ({ logs }) => {
       {logs.map((log, i) => (
         <div key={i} className="mb-1">
           <span className="text-indigo-400 mr-2">$</span>
-          <span className={log.includes('ERROR') ? 'text-red-400' : log.includes('SUCCESS') ? 'text-emerald-400' : 'text-slate-300'}>
+          <span className={log.includes('ERROR') ? 'text-red-400' : log.includes('WARNING') ? 'text-amber-400' : log.includes('SUCCESS') ? 'text-emerald-400' : 'text-slate-300'}>
             {log}
           </span>
         </div>
@@ -0,0 +1,18 @@
+import { FeatureDefinition, TemplateType } from "../types";
+import { parseFeatureManifest } from "../services/manifestLoader";
+import manifestSource from "./manifests/auth.yaml?raw";
+
+const manifest = parseFeatureManifest(manifestSource, "yaml");
+
+/**
+ * JWT bearer auth with config-driven key loading and role guards
+ */
+export const authFeature: FeatureDefinition = {
+  id: "auth",
+  name: "JWT Auth",
+  description:
+    "JWT verification against a secret or JWKS, with a pinned algorithm and role guards",
+  dependsOn: [],
+  templates: [TemplateType.TYPESCRIPT_EXPRESS, TemplateType.GO_CLEAN_ARCH],
+  manifest,
+};
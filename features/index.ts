@@ -0,0 +1,19 @@
+import { FeatureDefinition } from "../types";
+import { authFeature } from "./auth";
+import { postgresFeature } from "./postgres";
+import { redisFeature } from "./redis";
+import { kafkaFeature } from "./kafka";
+import { natsFeature } from "./nats";
+import { observabilityFeature } from "./observability";
+
+/**
+ * Feature modules shipped with temp-gen, in the order they appear in the form
+ */
+export const builtInFeatures: FeatureDefinition[] = [
+  postgresFeature,
+  redisFeature,
+  kafkaFeature,
+  natsFeature,
+  authFeature,
+  observabilityFeature,
+];
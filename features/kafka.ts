@@ -0,0 +1,17 @@
+import { FeatureDefinition, TemplateType } from "../types";
+import { parseFeatureManifest } from "../services/manifestLoader";
+import manifestSource from "./manifests/kafka.yaml?raw";
+
+const manifest = parseFeatureManifest(manifestSource, "yaml");
+
+/**
+ * Kafka consumer
+ */
+export const kafkaFeature: FeatureDefinition = {
+  id: "kafka",
+  name: "Kafka Consumer",
+  description: "Consumer-group subscriber for a Kafka topic",
+  dependsOn: [],
+  templates: [TemplateType.TYPESCRIPT_EXPRESS, TemplateType.GO_CLEAN_ARCH],
+  manifest,
+};
@@ -0,0 +1,17 @@
+import { FeatureDefinition, TemplateType } from "../types";
+import { parseFeatureManifest } from "../services/manifestLoader";
+import manifestSource from "./manifests/nats.yaml?raw";
+
+const manifest = parseFeatureManifest(manifestSource, "yaml");
+
+/**
+ * NATS consumer
+ */
+export const natsFeature: FeatureDefinition = {
+  id: "nats",
+  name: "NATS Consumer",
+  description: "Queue-group subscriber for a NATS subject",
+  dependsOn: [],
+  templates: [TemplateType.TYPESCRIPT_EXPRESS, TemplateType.GO_CLEAN_ARCH],
+  manifest,
+};
@@ -0,0 +1,18 @@
+import { FeatureDefinition, TemplateType } from "../types";
+import { parseFeatureManifest } from "../services/manifestLoader";
+import manifestSource from "./manifests/observability.yaml?raw";
+
+const manifest = parseFeatureManifest(manifestSource, "yaml");
+
+/**
+ * OpenTelemetry request tracing and Prometheus RED metrics
+ */
+export const observabilityFeature: FeatureDefinition = {
+  id: "observability",
+  name: "Observability",
+  description:
+    "OpenTelemetry request spans with trace ids in the logs, Prometheus /metrics and a local collector",
+  dependsOn: [],
+  templates: [TemplateType.TYPESCRIPT_EXPRESS, TemplateType.GO_CLEAN_ARCH],
+  manifest,
+};
@@ -0,0 +1,18 @@
+import { FeatureDefinition, TemplateType } from "../types";
+import { parseFeatureManifest } from "../services/manifestLoader";
+import manifestSource from "./manifests/postgres.yaml?raw";
+
+const manifest = parseFeatureManifest(manifestSource, "yaml");
+
+/**
+ * PostgreSQL persistence
+ */
+export const postgresFeature: FeatureDefinition = {
+  id: "postgres",
+  name: "PostgreSQL",
+  description:
+    "PostgreSQL persistence for the User domain (TypeORM in Express, database/sql + pgx in Go)",
+  dependsOn: [],
+  templates: [TemplateType.TYPESCRIPT_EXPRESS, TemplateType.GO_CLEAN_ARCH],
+  manifest,
+};
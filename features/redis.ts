@@ -0,0 +1,17 @@
+import { FeatureDefinition, TemplateType } from "../types";
+import { parseFeatureManifest } from "../services/manifestLoader";
+import manifestSource from "./manifests/redis.yaml?raw";
+
+const manifest = parseFeatureManifest(manifestSource, "yaml");
+
+/**
+ * Redis caching of user lookups
+ */
+export const redisFeature: FeatureDefinition = {
+  id: "redis",
+  name: "Redis Cache",
+  description: "Redis read-through cache in front of the user repository",
+  dependsOn: ["postgres"],
+  templates: [TemplateType.TYPESCRIPT_EXPRESS, TemplateType.GO_CLEAN_ARCH],
+  manifest,
+};
@@ -0,0 +1,259 @@
+import {
+  ApiOperation,
+  ApiParameter,
+  ApiSchema,
+  ApiType,
+  OpenApiGenerator,
+  TemplateType,
+} from "../types";
+import { parseTemplateManifest } from "../services/manifestLoader";
+import { patchFile } from "../services/filePatcher";
+import { renderTemplate } from "../services/templateEngine";
+import { alignColumns, convert } from "../services/codeStyle";
+import { rejectsEmptyObject, sampleUrl, sampleValue } from "./samples";
+import manifestSource from "./manifests/go-clean-arch.yaml?raw";
+
+const manifest = parseTemplateManifest(manifestSource, "yaml");
+
+/** How newRouter mounts the generated handler for each router */
+const REGISTRATIONS: Record<string, string> = {
+  "net/http": 'mux.Handle("/", api.NewHandler())',
+  chi: "api.NewHandler().Register(r)",
+  gin: "api.NewHandler().Register(r)",
+  echo: "api.NewHandler().Register(e)",
+};
+
+/** The parser method converting each parameter type from its raw string */
+const PARSERS: Record<ApiParameter["type"], string | undefined> = {
+  string: undefined,
+  integer: "integer",
+  number: "number",
+  boolean: "boolean",
+};
+
+/** Exported Go name, with initialisms upper-cased the way golint expects */
+const goName = (name: string) =>
+  convert(name, "pascal").replace(
+    /(Api|Http|Id|Json|Uri|Url|Uuid)(?=[A-Z0-9]|$)/g,
+    (initialism) => initialism.toUpperCase(),
+  );
+
+const describe = (operation: ApiOperation) =>
+  `${operation.method.toUpperCase()} ${operation.path}`;
+
+const goType = (type: ApiType): string => {
+  switch (type.kind) {
+    case "array":
+      return `[]${goType(type.items)}`;
+    case "ref":
+      return type.name;
+    case "object":
+      return "map[string]any";
+    case "unknown":
+      return "any";
+    case "integer":
+      return "int64";
+    case "number":
+      return "float64";
+    case "boolean":
+      return "bool";
+    default:
+      return "string";
+  }
+};
+
+/** Struct field type; references are pointers so schemas can nest themselves */
+const goFieldType = (type: ApiType, optional: boolean): string => {
+  if (type.kind === "ref") return `*${type.name}`;
+  return optional && !["array", "object", "unknown"].includes(type.kind)
+    ? `*${goType(type)}`
+    : goType(type);
+};
+
+/** Top-level fields a body must contain, which JSON decoding cannot check */
+const requiredFields = (type: ApiType, schemas: ApiSchema[]): string[] => {
+  const schema =
+    type.kind === "ref"
+      ? schemas.find(({ name }) => name === type.name)
+      : undefined;
+  if (schema?.kind !== "object") return [];
+  return schema.properties
+    .filter((property) => !property.optional)
+    .map((property) => property.name);
+};
+
+/** Statements of an operation's serve method, which fill in its params */
+const serveLines = (
+  operation: ApiOperation,
+  name: string,
+  schemas: ApiSchema[],
+): string[] => {
+  const { parameters, body } = operation;
+  if (parameters.length === 0 && !body) {
+    return [`return h.${name}(req.ctx, ${name}Params{})`];
+  }
+  const parse = (parameter: ApiParameter, raw: string) => {
+    const parser = PARSERS[parameter.type];
+    return parser
+      ? `p.${parser}("${parameter.in} parameter ${parameter.name}", ${raw})`
+      : raw;
+  };
+  const inputs = parameters.flatMap((parameter) => {
+    const field = `params.${goName(parameter.name)}`;
+    if (parameter.in === "path") {
+      return [
+        `${field} = ${parse(parameter, `req.path("${parameter.name}")`)}`,
+      ];
+    }
+    const read = `raw := req.query.Get("${parameter.name}")`;
+    return parameter.required
+      ? [
+          `if ${read}; raw == "" {`,
+          `\tp.missing("query parameter ${parameter.name}")`,
+          "} else {",
+          `\t${field} = ${parse(parameter, "raw")}`,
+          "}",
+        ]
+      : [
+          `if ${read}; raw != "" {`,
+          `\t${field} = ptr(${parse(parameter, "raw")})`,
+          "}",
+        ];
+  });
+  const decode = body
+    ? [
+        `p.body(req.body, &params.Body, ${[
+          String(body.required),
+          ...requiredFields(body.type, schemas).map((field) => `"${field}"`),
+        ].join(", ")})`,
+      ]
+    : [];
+  return [
+    `var params ${name}Params`,
+    "var p parser",
+    ...inputs,
+    ...decode,
+    "if err := p.err(); err != nil {",
+    "\treturn http.StatusBadRequest, errorResponse{Error: err.Error()}",
+    "}",
+    `return h.${name}(req.ctx, params)`,
+  ];
+};
+
+/**
+ * Go API: a Handler with a stub method per operation, behind serve methods
+ * that parse and validate the inputs, mounted in cmd/api/router.go
+ */
+export const goCleanArchOpenApi: OpenApiGenerator = {
+  templates: [TemplateType.GO_CLEAN_ARCH],
+  manifest,
+  reservedPaths: (variables) => [
+    "/health",
+    "/health/live",
+    "/health/ready",
+    "/metrics",
+    "/api/v1/secure",
+    // net/http mounts the user handler on the whole /api/v1/users/ subtree
+    variables.router === "net/http" ? "/api/v1/users/" : "/api/v1/users/{id}",
+    // Swagger UI, with the document at /docs/openapi.yaml
+    ...(variables.apiDocs ? ["/docs/"] : []),
+  ],
+  variables: (api, variables) => {
+    const colonParameters = ["gin", "echo"].includes(String(variables.router));
+
+    const operations = api.operations.map((operation) => {
+      const name = goName(operation.id);
+      const { body, response } = operation;
+      const fields = [
+        ...operation.parameters.map((parameter) => [
+          goName(parameter.name),
+          parameter.required
+            ? goType({ kind: parameter.type })
+            : `*${goType({ kind: parameter.type })}`,
+        ]),
+        ...(body ? [["Body", goType(body.type)]] : []),
+      ];
+      const path = colonParameters
+        ? operation.path.replace(/\{(\w+)\}/g, ":$1")
+        : operation.path;
+      const url = sampleUrl(operation);
+      return {
+        id: operation.id,
+        name,
+        route: describe(operation),
+        doc: `${name} handles ${describe(operation)}${
+          operation.summary ? `: ${operation.summary.replace(/\.$/, "")}` : ""
+        }.`,
+        responds: `${response.status} with ${
+          response.type ? goType(response.type) : "no body"
+        }`,
+        entry: `{http.Method${convert(operation.method, "pascal")}, "${path}", h.serve${name}},`,
+        params:
+          fields.length > 0
+            ? [
+                `type ${name}Params struct {`,
+                ...alignColumns(fields).map((line) => `\t${line}`),
+                "}",
+              ]
+            : [`type ${name}Params struct{}`],
+        serve: serveLines(operation, name, api.schemas).map(
+          (line) => `\t${line}`,
+        ),
+        tests: [
+          `{"${operation.id}", http.Method${convert(operation.method, "pascal")}, "${url}", \`${
+            body ? JSON.stringify(sampleValue(body.type, api.schemas)) : ""
+          }\`, http.StatusNotImplemented},`,
+          ...(body?.required && rejectsEmptyObject(body.type, api.schemas)
+            ? [
+                `{"${operation.id} with an empty body", http.Method${convert(operation.method, "pascal")}, "${url}", \`{}\`, http.StatusBadRequest},`,
+              ]
+            : []),
+        ],
+      };
+    });
+
+    return {
+      title: `${api.title} ${api.version}`,
+      schemas: api.schemas.map((schema) => {
+        if (schema.kind === "alias" || schema.properties.length === 0) {
+          return [
+            `type ${schema.name} ${goType(
+              schema.kind === "alias" ? schema.type : { kind: "object" },
+            )}`,
+          ];
+        }
+        return [
+          `type ${schema.name} struct {`,
+          ...alignColumns(
+            schema.properties.map((property) => [
+              goName(property.name),
+              goFieldType(property.type, property.optional),
+              `\`json:"${property.name}${property.optional ? ",omitempty" : ""}"\``,
+            ]),
+          ).map((line) => `\t${line}`),
+          "}",
+        ];
+      }),
+      operations,
+    };
+  },
+  register: (files, variables) =>
+    patchFile(files, "cmd/api/router.go", [
+      {
+        // internal/api sorts before internal/auth when the auth feature is on
+        anchor:
+          /^\t"[^"\n]*\/internal\/auth"$|^(?<!\/internal\/auth"\n)\tdeliveryhttp "/m,
+        position: "before",
+        text: renderTemplate(
+          '\t"{{ goModulePath }}/internal/api"\n',
+          variables,
+        ),
+      },
+      {
+        anchor:
+          /\n\n(?:\t\/\/ Wrap with [\w ]+ middleware\n)?\treturn (?:middleware\.\w+\(.*\)|r|e)\n\}/,
+        position: "before",
+        text: `\n\n\t// OpenAPI operations\n\t${REGISTRATIONS[String(variables.router)]}`,
+      },
+    ]),
+};
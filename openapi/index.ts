@@ -0,0 +1,11 @@
+import { OpenApiGenerator } from "../types";
+import { typescriptExpressOpenApi } from "./typescriptExpress";
+import { goCleanArchOpenApi } from "./goCleanArch";
+
+/**
+ * OpenAPI generators shipped with temp-gen, one per supported template
+ */
+export const builtInOpenApiGenerators: OpenApiGenerator[] = [
+  typescriptExpressOpenApi,
+  goCleanArchOpenApi,
+];
@@ -0,0 +1,84 @@
+import { ApiOperation, ApiPrimitiveType, ApiSchema, ApiType } from "../types";
+
+const PRIMITIVE_SAMPLES: Record<ApiPrimitiveType, string | number | boolean> = {
+  string: "example",
+  number: 1.5,
+  integer: 1,
+  boolean: true,
+};
+
+const findSchema = (schemas: ApiSchema[], name: string) =>
+  schemas.find((schema) => schema.name === name);
+
+/**
+ * A value of the given type that passes the generated validation, with only
+ * the required fields filled in
+ */
+export const sampleValue = (
+  type: ApiType,
+  schemas: ApiSchema[],
+  depth = 0,
+): unknown => {
+  switch (type.kind) {
+    case "array":
+      return [sampleValue(type.items, schemas, depth)];
+    case "ref": {
+      const schema = findSchema(schemas, type.name);
+      // Recursive schemas stop at an empty object
+      if (!schema || depth > 4) return {};
+      if (schema.kind === "alias") {
+        return sampleValue(schema.type, schemas, depth + 1);
+      }
+      return Object.fromEntries(
+        schema.properties
+          .filter((property) => !property.optional)
+          .map((property) => [
+            property.name,
+            sampleValue(property.type, schemas, depth + 1),
+          ]),
+      );
+    }
+    case "object":
+    case "unknown":
+      return {};
+    default:
+      return PRIMITIVE_SAMPLES[type.kind];
+  }
+};
+
+/**
+ * Whether an empty JSON object fails validation against the given type
+ */
+export const rejectsEmptyObject = (
+  type: ApiType,
+  schemas: ApiSchema[],
+): boolean => {
+  if (type.kind === "object" || type.kind === "unknown") return false;
+  if (type.kind !== "ref") return true;
+  const schema = findSchema(schemas, type.name);
+  if (!schema) return false;
+  return schema.kind === "alias"
+    ? rejectsEmptyObject(schema.type, schemas)
+    : schema.properties.some((property) => !property.optional);
+};
+
+/**
+ * A URL for an operation with sample path parameters and every required
+ * query parameter
+ */
+export const sampleUrl = (operation: ApiOperation): string => {
+  const value = (name: string) =>
+    String(
+      PRIMITIVE_SAMPLES[
+        operation.parameters.find((parameter) => parameter.name === name)
+          ?.type ?? "string"
+      ],
+    );
+  const query = operation.parameters
+    .filter((parameter) => parameter.in === "query" && parameter.required)
+    .map((parameter) => `${parameter.name}=${value(parameter.name)}`);
+  const path = operation.path.replace(/\{(\w+)\}/g, (_, name: string) =>
+    value(name),
+  );
+  return query.length > 0 ? `${path}?${query.join("&")}` : path;
+};
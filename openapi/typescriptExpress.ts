@@ -0,0 +1,198 @@
+import { ApiType, OpenApiGenerator, TemplateType } from "../types";
+import { parseTemplateManifest } from "../services/manifestLoader";
+import { patchFile } from "../services/filePatcher";
+import { rejectsEmptyObject, sampleUrl, sampleValue } from "./samples";
+import manifestSource from "./manifests/typescript-express.yaml?raw";
+
+const manifest = parseTemplateManifest(manifestSource, "yaml");
+
+const tsType = (type: ApiType): string => {
+  switch (type.kind) {
+    case "array":
+      return `${tsType(type.items)}[]`;
+    case "ref":
+      return type.name;
+    case "object":
+      return "Record<string, unknown>";
+    case "integer":
+      return "number";
+    default:
+      return type.kind;
+  }
+};
+
+/** The validation rule for a type, as a TypeScript object literal */
+const rule = (type: ApiType): string => {
+  switch (type.kind) {
+    case "array":
+      return `{ type: 'array', items: ${rule(type.items)} }`;
+    case "ref":
+      return `{ type: 'ref', schema: '${type.name}' }`;
+    case "unknown":
+      return "{ type: 'any' }";
+    default:
+      return `{ type: '${type.kind}' }`;
+  }
+};
+
+const field = (type: ApiType, required: boolean) =>
+  rule(type).replace(/ }$/, `, required: ${required} }`);
+
+const refNames = (type: ApiType): string[] => {
+  if (type.kind === "array") return refNames(type.items);
+  return type.kind === "ref" ? [type.name] : [];
+};
+
+const quote = (text: string) => `'${text.replace(/['\\]/g, "\\$&")}'`;
+
+const tsLiteral = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(tsLiteral).join(", ")}]`;
+  if (typeof value === "string") return quote(value);
+  if (typeof value !== "object" || value === null) return String(value);
+  const entries = Object.entries(value);
+  return entries.length === 0
+    ? "{}"
+    : `{ ${entries.map(([key, item]) => `${key}: ${tsLiteral(item)}`).join(", ")} }`;
+};
+
+const docComment = (text: string) => `/** ${text.replace(/\*\//g, "*\\/")} */`;
+
+/**
+ * Express API: typed handler stubs behind a router that validates path,
+ * query and body inputs, mounted in app.ts next to the existing routes
+ */
+export const typescriptExpressOpenApi: OpenApiGenerator = {
+  templates: [TemplateType.TYPESCRIPT_EXPRESS],
+  manifest,
+  reservedPaths: (variables) => [
+    "/health",
+    "/health/live",
+    "/health/ready",
+    "/metrics",
+    "/api/v1/secure",
+    // Swagger UI, with the document at /docs/openapi.yaml
+    ...(variables.apiDocs ? ["/docs/"] : []),
+  ],
+  variables: (api) => {
+    const operations = api.operations.map((operation) => {
+      const inputs = (location: "path" | "query") =>
+        operation.parameters.filter((parameter) => parameter.in === location);
+      const inputType = (location: "path" | "query") => {
+        const parameters = inputs(location);
+        return parameters.length === 0
+          ? "Record<string, never>"
+          : `{ ${parameters
+              .map(
+                (parameter) =>
+                  `${parameter.name}${parameter.required ? "" : "?"}: string`,
+              )
+              .join("; ")} }`;
+      };
+      const inputRules = (location: "path" | "query") =>
+        inputs(location)
+          .map(
+            (parameter) =>
+              `${parameter.name}: ${field({ kind: parameter.type }, parameter.required)}`,
+          )
+          .join(", ");
+
+      const { body, response } = operation;
+      const validation = [
+        inputs("path").length > 0 && `params: { ${inputRules("path")} },`,
+        inputs("query").length > 0 && `query: { ${inputRules("query")} },`,
+        body && `body: ${field(body.type, body.required)},`,
+      ].filter((line): line is string => Boolean(line));
+
+      return {
+        id: operation.id,
+        method: operation.method,
+        doc: docComment(
+          `${operation.method.toUpperCase()} ${operation.path}${
+            operation.summary ? `: ${operation.summary}` : ""
+          }`,
+        ),
+        path: operation.path.replace(/\{(\w+)\}/g, ":$1"),
+        handlerType: `RequestHandler<${inputType("path")}, ${
+          response.type ? `${tsType(response.type)} | ApiError` : "ApiError"
+        }, ${body ? tsType(body.type) : "unknown"}, ${inputType("query")}>`,
+        validation,
+        test: {
+          url: sampleUrl(operation),
+          body: body ? tsLiteral(sampleValue(body.type, api.schemas)) : "",
+          rejectsEmpty: Boolean(
+            body?.required && rejectsEmptyObject(body.type, api.schemas),
+          ),
+        },
+      };
+    });
+
+    const handlerTypes = api.operations.flatMap((operation) => [
+      ...(operation.response.type ? refNames(operation.response.type) : []),
+      ...(operation.body ? refNames(operation.body.type) : []),
+    ]);
+
+    return {
+      title: `${api.title} ${api.version}`,
+      schemas: api.schemas.map((schema) => {
+        const lines = schema.description
+          ? [docComment(schema.description)]
+          : [];
+        if (schema.kind === "alias" || schema.properties.length === 0) {
+          const type =
+            schema.kind === "alias"
+              ? tsType(schema.type)
+              : tsType({ kind: "object" });
+          return {
+            name: schema.name,
+            declaration: [...lines, `export type ${schema.name} = ${type};`],
+            rule:
+              schema.kind === "alias"
+                ? rule(schema.type)
+                : "{ type: 'object' }",
+          };
+        }
+        return {
+          name: schema.name,
+          declaration: [
+            ...lines,
+            `export interface ${schema.name} {`,
+            ...schema.properties.map(
+              (property) =>
+                `  ${property.name}${property.optional ? "?" : ""}: ${tsType(property.type)};`,
+            ),
+            "}",
+          ],
+          rule: [
+            "{",
+            "    type: 'object',",
+            "    fields: {",
+            ...schema.properties.map(
+              (property) =>
+                `      ${property.name}: ${field(property.type, !property.optional)},`,
+            ),
+            "    },",
+            "  }",
+          ].join("\n"),
+        };
+      }),
+      operations,
+      handlerImports: Array.from(new Set(["ApiError", ...handlerTypes]))
+        .sort()
+        .join(", "),
+      validated: operations.some(
+        (operation) => operation.validation.length > 0,
+      ),
+    };
+  },
+  register: (files) =>
+    patchFile(files, "src/app.ts", [
+      {
+        anchor: /^import .*;$/m,
+        text: "\nimport { createApiRouter } from './api/routes';",
+      },
+      {
+        anchor: /^ {2}app\.use\('.*$/m,
+        text: "\n  app.use(createApiRouter());",
+      },
+    ]),
+};
@@ -0,0 +1,104 @@
+import { GeneratedFile, ResourceGenerator, TemplateType } from "../types";
+import { parseTemplateManifest } from "../services/manifestLoader";
+import { FileEdit, patchFile } from "../services/filePatcher";
+import { renderTemplate } from "../services/templateEngine";
+import manifestSource from "./manifests/go-clean-arch.yaml?raw";
+
+const manifest = parseTemplateManifest(manifestSource, "yaml");
+
+/** How newRouter mounts the handler's routes for each router */
+const REGISTRATIONS: Record<string, string> = {
+  "net/http": "{{ resource.plural | camel }}.Register(mux)",
+  chi: 'r.Route("{{ resource.path }}", {{ resource.plural | camel }}.Register)',
+  gin: '{{ resource.plural | camel }}.Register(r.Group("{{ resource.path }}"))',
+  echo: '{{ resource.plural | camel }}.Register(e.Group("{{ resource.path }}"))',
+};
+
+const PROVIDERS = [
+  "memory.New{{ resource.name }}Repository,",
+  "usecase.New{{ resource.name }}Usecase,",
+  "deliveryhttp.New{{ resource.name }}Handler,",
+];
+
+const MEMORY_IMPORT: FileEdit = {
+  anchor: /^\t"[^"\n]*\/internal\/usecase"$/m,
+  position: "before",
+  text: '\t"{{ goModulePath }}/internal/repository/memory"\n',
+  unless: '/internal/repository/memory"',
+};
+
+/** Edits to the hand-written (or Wire-generated) initializeApp */
+const WIRING_EDITS: FileEdit[] = [
+  MEMORY_IMPORT,
+  {
+    anchor: /^\t\w+Handler := deliveryhttp\.New\w+Handler\(.*$/m,
+    text: "\n\t{{ resource.name | camel }}Handler := deliveryhttp.New{{ resource.name }}Handler(usecase.New{{ resource.name }}Usecase(memory.New{{ resource.name }}Repository()))",
+  },
+  {
+    anchor: /(?<=newRouter\(logger, [^)]*)\)\)\}$/m,
+    position: "before",
+    text: ", {{ resource.name | camel }}Handler",
+  },
+];
+
+/**
+ * Go resources: the handler is passed to newRouter, which mounts its routes,
+ * and is built by the composition root of the selected DI style
+ */
+export const goCleanArchResources: ResourceGenerator = {
+  templates: [TemplateType.GO_CLEAN_ARCH],
+  manifest,
+  register: (files, variables) => {
+    const render = (source: string) => renderTemplate(source, variables);
+    const edit = (
+      current: GeneratedFile[],
+      path: string,
+      edits: FileEdit[],
+    ): GeneratedFile[] =>
+      patchFile(
+        current,
+        path,
+        edits.map((fileEdit) => ({
+          ...fileEdit,
+          text: render(fileEdit.text),
+        })),
+      );
+    const providers = (indent: string): FileEdit => ({
+      anchor: /^\t+deliveryhttp\.New\w+Handler,$/m,
+      text: PROVIDERS.map((line) => `\n${indent}${line}`).join(""),
+    });
+
+    const withRoutes = edit(files, "cmd/api/router.go", [
+      {
+        anchor: /(?<=^func newRouter\(.*)\) http\.Handler \{$/m,
+        position: "before",
+        text: ", {{ resource.plural | camel }} *deliveryhttp.{{ resource.name }}Handler",
+      },
+      {
+        anchor:
+          /\n\n(?:\t\/\/ Wrap with [\w ]+ middleware\n)?\treturn (?:middleware\.\w+\(.*\)|r|e)\n\}/,
+        position: "before",
+        text: `\n\n\t// {{ resource.name }} routes\n\t${REGISTRATIONS[String(variables.router)]}`,
+      },
+    ]);
+
+    switch (variables.di) {
+      case "fx":
+        return edit(withRoutes, "cmd/api/main.go", [
+          MEMORY_IMPORT,
+          providers("\t\t\t"),
+        ]);
+      case "wire":
+        return edit(
+          edit(withRoutes, "cmd/api/wire.go", [
+            MEMORY_IMPORT,
+            providers("\t\t"),
+          ]),
+          "cmd/api/wire_gen.go",
+          WIRING_EDITS,
+        );
+      default:
+        return edit(withRoutes, "cmd/api/wiring.go", WIRING_EDITS);
+    }
+  },
+};
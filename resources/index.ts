@@ -0,0 +1,11 @@
+import { ResourceGenerator } from "../types";
+import { typescriptExpressResources } from "./typescriptExpress";
+import { goCleanArchResources } from "./goCleanArch";
+
+/**
+ * Resource generators shipped with temp-gen, one per supported template
+ */
+export const builtInResourceGenerators: ResourceGenerator[] = [
+  typescriptExpressResources,
+  goCleanArchResources,
+];
@@ -0,0 +1,88 @@
+import { ResourceGenerator, TemplateType } from "../types";
+import { parseTemplateManifest } from "../services/manifestLoader";
+import { patchFile } from "../services/filePatcher";
+import { renderTemplate } from "../services/templateEngine";
+import manifestSource from "./manifests/typescript-express.yaml?raw";
+
+const manifest = parseTemplateManifest(manifestSource, "yaml");
+
+const LAST_IMPORT = /^import .*;$/m;
+
+const CONTROLLER_IMPORT =
+  "import { {{ resource.name }}Controller } from './controllers/{{ resource.name | kebab }}.controller';";
+const ROUTER_IMPORT =
+  "import { create{{ resource.name }}Router } from './routes/{{ resource.name | kebab }}.routes';";
+const SERVICE_IMPORT =
+  "import { {{ resource.name }}Service } from './services/{{ resource.name | kebab }}.service';";
+
+/** How app.ts obtains the controller in each DI mode */
+const CONTROLLERS: Record<string, string> = {
+  manual: "new {{ resource.name }}Controller(new {{ resource.name }}Service())",
+  inversify: "container.get({{ resource.name }}Controller)",
+  tsyringe: "container.resolve({{ resource.name }}Controller)",
+};
+
+const BINDINGS: Record<string, string[]> = {
+  inversify: [
+    "container.bind({{ resource.name }}Service).toSelf().inSingletonScope();",
+    "container.bind({{ resource.name }}Controller).toSelf();",
+  ],
+  tsyringe: [
+    "container.registerSingleton({{ resource.name }}Service);",
+    "container.register({{ resource.name }}Controller, { useClass: {{ resource.name }}Controller });",
+  ],
+};
+
+/**
+ * Express resources: a router mounted in app.ts next to the existing routes,
+ * with its controller built by hand or bound in the DI container
+ */
+export const typescriptExpressResources: ResourceGenerator = {
+  templates: [TemplateType.TYPESCRIPT_EXPRESS],
+  manifest,
+  register: (files, variables) => {
+    const render = (lines: string[], indent = "") =>
+      lines.map((line) => `${indent}${renderTemplate(line, variables)}`);
+    const di = String(variables.di);
+    const manual = di === "manual";
+
+    const withRoute = patchFile(files, "src/app.ts", [
+      {
+        anchor: LAST_IMPORT,
+        text: render(
+          manual
+            ? [CONTROLLER_IMPORT, ROUTER_IMPORT, SERVICE_IMPORT]
+            : [CONTROLLER_IMPORT, ROUTER_IMPORT],
+        )
+          .map((line) => `\n${line}`)
+          .join(""),
+      },
+      {
+        anchor: /^ {2}app\.use\('.*$/m,
+        text: `\n${render(
+          [
+            `app.use('{{ resource.path }}', create{{ resource.name }}Router(${CONTROLLERS[di]}));`,
+          ],
+          "  ",
+        )}`,
+      },
+    ]);
+    if (manual) return withRoute;
+
+    return patchFile(withRoute, "src/container.ts", [
+      {
+        anchor: LAST_IMPORT,
+        text: render([CONTROLLER_IMPORT, SERVICE_IMPORT])
+          .map((line) => `\n${line}`)
+          .join(""),
+      },
+      {
+        anchor: /^ {2}return container;$/m,
+        position: "before",
+        text: render(BINDINGS[di], "  ")
+          .map((line) => `${line}\n`)
+          .join(""),
+      },
+    ]);
+  },
+};
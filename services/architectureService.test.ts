@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { TemplateType } from "../types";
+import { getDesignDecisions } from "./architectureService";
+
+describe("getDesignDecisions", () => {
+  it("keeps only the decisions whose condition holds", () => {
+    const reasons = (di: string) =>
+      getDesignDecisions(TemplateType.TYPESCRIPT_EXPRESS, { di }).map(
+        (decision) => decision.reason,
+      );
+
+    expect(reasons("inversify")).toEqual([
+      expect.stringContaining("Separates business logic"),
+      expect.stringContaining("Inversify container"),
+    ]);
+    expect(reasons("tsyringe")).toEqual([
+      expect.stringContaining("Separates business logic"),
+      expect.stringContaining("tsyringe container"),
+    ]);
+    expect(reasons("manual")).toEqual([
+      expect.stringContaining("Separates business logic"),
+      expect.stringContaining("wired by hand"),
+    ]);
+  });
+
+  it("returns unconditional decisions for any variables", () => {
+    expect(getDesignDecisions(TemplateType.GO_CLEAN_ARCH, {})).toHaveLength(3);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { parse as parseYaml } from "yaml";
+import { TemplateType } from "../types";
+import { generateFiles } from "./templateService";
+
+const pipeline = (
+  template: string,
+  ciProvider: string,
+  { includeTests = true, includeLinter = true } = {},
+) => {
+  const path =
+    ciProvider === "github" ? ".github/workflows/ci.yml" : ".gitlab-ci.yml";
+  const file = generateFiles("user-api", template, {
+    includeTests,
+    includeLinter,
+    variables: { ciProvider },
+    features: [],
+  }).find((candidate) => candidate.path === path);
+  return file && parseYaml(file.content);
+};
+
+describe("generateCi", () => {
+  it("runs every check and builds the image on GitHub Actions", () => {
+    const { steps } = pipeline(TemplateType.TYPESCRIPT_EXPRESS, "github").jobs
+      .build;
+
+    expect(steps[1]).toEqual({
+      uses: "actions/setup-node@v4",
+      with: { "node-version": "18" },
+    });
+    expect(steps[2].with).toEqual({
+      path: "~/.npm",
+      key: "node-${{ runner.os }}-${{ hashFiles('package.json') }}",
+      "restore-keys": "node-${{ runner.os }}-",
+    });
+    expect(steps.slice(3)).toEqual([
+      { name: "Install", run: "npm install" },
+      { name: "Lint", run: "npm run lint" },
+      { name: "Test", run: "npm test" },
+      { name: "Build", run: "npm run build" },
+      {
+        name: "Build Docker image",
+        run: "docker build -t user-api:${{ github.sha }} .",
+      },
+    ]);
+  });
+
+  it("leaves out lint and tests the project does not include", () => {
+    const { steps } = pipeline(TemplateType.GO_CLEAN_ARCH, "github", {
+      includeTests: false,
+      includeLinter: false,
+    }).jobs.build;
+
+    expect(steps.map((step: { name?: string }) => step.name)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      "Install",
+      "Build",
+      "Build Docker image",
+    ]);
+  });
+
+  it("caches Go modules inside the project on GitLab CI", () => {
+    const config = pipeline(TemplateType.GO_CLEAN_ARCH, "gitlab");
+
+    expect(config.default).toEqual({
+      image: "golang:1.21",
+      cache: { key: { files: ["go.mod"] }, paths: [".go/"] },
+      before_script: ["go mod tidy"],
+    });
+    expect(config.variables.GOMODCACHE).toBe("$CI_PROJECT_DIR/.go/pkg/mod");
+    expect(config.test).toEqual({
+      stage: "check",
+      script: ["go test ./..."],
+    });
+    expect(config.docker.script).toEqual([
+      "docker build -t user-api:$CI_COMMIT_SHORT_SHA .",
+    ]);
+  });
+
+  it("skips the image build for templates without a Dockerfile", () => {
+    const config = pipeline(TemplateType.CLI_TOOL, "gitlab");
+
+    expect(config).not.toHaveProperty("docker");
+    expect(config).not.toHaveProperty("test");
+    expect(config.lint.script).toEqual(["npm run lint"]);
+  });
+
+  it("generates nothing by default", () => {
+    expect(pipeline("Python/FastAPI", "none")).toBeUndefined();
+  });
+});
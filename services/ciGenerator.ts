@@ -0,0 +1,206 @@
+import { stringify as stringifyYaml } from "yaml";
+import {
+  CiCommands,
+  GeneratedFile,
+  ProjectEcosystem,
+  TemplateDefinition,
+  TemplateVariables,
+} from "../types";
+import { renderTemplate } from "./templateEngine";
+
+interface Toolchain {
+  /** GitHub setup action and the input taking the runtime version */
+  action: string;
+  versionInput: string;
+  setupOptions?: Record<string, boolean>;
+  /** GitLab image, tagged with the runtime version */
+  image: string;
+  /** Manifest whose hash keys the cache; no lockfile is generated */
+  cacheKey: string;
+  /** Cache directories on a GitHub runner */
+  githubCache: string[];
+  /** GitLab only caches inside the project, so the tools are pointed there */
+  gitlabVariables: Record<string, string>;
+  gitlabCache: string[];
+}
+
+const TOOLCHAINS: Record<ProjectEcosystem, Toolchain> = {
+  npm: {
+    action: "actions/setup-node@v4",
+    versionInput: "node-version",
+    image: "node",
+    cacheKey: "package.json",
+    githubCache: ["~/.npm"],
+    gitlabVariables: { npm_config_cache: "$CI_PROJECT_DIR/.npm" },
+    gitlabCache: [".npm/"],
+  },
+  go: {
+    action: "actions/setup-go@v5",
+    versionInput: "go-version",
+    // Its built-in cache is keyed on go.sum, which is not generated
+    setupOptions: { cache: false },
+    image: "golang",
+    cacheKey: "go.mod",
+    githubCache: ["~/go/pkg/mod", "~/.cache/go-build"],
+    gitlabVariables: {
+      GOMODCACHE: "$CI_PROJECT_DIR/.go/pkg/mod",
+      GOCACHE: "$CI_PROJECT_DIR/.go/cache",
+    },
+    gitlabCache: [".go/"],
+  },
+  pypi: {
+    action: "actions/setup-python@v5",
+    versionInput: "python-version",
+    image: "python",
+    cacheKey: "pyproject.toml",
+    githubCache: ["~/.cache/pip"],
+    gitlabVariables: { PIP_CACHE_DIR: "$CI_PROJECT_DIR/.cache/pip" },
+    gitlabCache: [".cache/pip/"],
+  },
+};
+
+interface Step {
+  name: string;
+  run: string;
+}
+
+/**
+ * The checks the pipeline runs after installing, in order: lint and tests
+ * only when the project includes them
+ */
+const checks = (commands: CiCommands, variables: TemplateVariables): Step[] =>
+  [
+    { name: "Lint", run: variables.includeLinter ? commands.lint : undefined },
+    { name: "Test", run: variables.includeTests ? commands.test : undefined },
+    { name: "Build", run: commands.build },
+  ].filter((step): step is Step => step.run !== undefined);
+
+const githubWorkflow = (
+  name: string,
+  toolchain: Toolchain,
+  commands: CiCommands,
+  steps: Step[],
+  docker: boolean,
+): GeneratedFile => ({
+  path: ".github/workflows/ci.yml",
+  language: "yaml",
+  content: stringifyYaml({
+    name: "CI",
+    on: { push: { branches: ["main"] }, pull_request: {} },
+    jobs: {
+      build: {
+        "runs-on": "ubuntu-latest",
+        steps: [
+          { uses: "actions/checkout@v4" },
+          {
+            uses: toolchain.action,
+            with: {
+              [toolchain.versionInput]: commands.runtime,
+              ...toolchain.setupOptions,
+            },
+          },
+          {
+            uses: "actions/cache@v4",
+            with: {
+              path: toolchain.githubCache.join("\n"),
+              key: `${toolchain.image}-\${{ runner.os }}-\${{ hashFiles('${toolchain.cacheKey}') }}`,
+              "restore-keys": `${toolchain.image}-\${{ runner.os }}-`,
+            },
+          },
+          { name: "Install", run: commands.install },
+          ...steps,
+          ...(docker
+            ? [
+                {
+                  name: "Build Docker image",
+                  run: `docker build -t ${name}:\${{ github.sha }} .`,
+                },
+              ]
+            : []),
+        ],
+      },
+    },
+  }),
+});
+
+const gitlabPipeline = (
+  name: string,
+  toolchain: Toolchain,
+  commands: CiCommands,
+  steps: Step[],
+  docker: boolean,
+): GeneratedFile => ({
+  path: ".gitlab-ci.yml",
+  language: "yaml",
+  content: stringifyYaml({
+    stages: ["check", "build"],
+    default: {
+      image: `${toolchain.image}:${commands.runtime}`,
+      cache: {
+        key: { files: [toolchain.cacheKey] },
+        paths: toolchain.gitlabCache,
+      },
+      before_script: [commands.install],
+    },
+    variables: toolchain.gitlabVariables,
+    ...Object.fromEntries(
+      steps.map((step) => [
+        step.name.toLowerCase(),
+        {
+          stage: step.name === "Build" ? "build" : "check",
+          script: [step.run],
+        },
+      ]),
+    ),
+    ...(docker
+      ? {
+          docker: {
+            stage: "build",
+            image: "docker:27",
+            services: ["docker:27-dind"],
+            variables: { DOCKER_TLS_CERTDIR: "/certs" },
+            cache: [],
+            before_script: [],
+            script: [`docker build -t ${name}:$CI_COMMIT_SHORT_SHA .`],
+          },
+        }
+      : {}),
+  }),
+});
+
+/**
+ * Generates a GitHub Actions workflow or a GitLab CI pipeline for the
+ * `ciProvider` template variable: install with a dependency cache, lint,
+ * tests and build with the template's CI commands, and a Docker image build
+ * when the project has a Dockerfile
+ */
+export const generateCi = (
+  definition: TemplateDefinition,
+  variables: TemplateVariables,
+  files: GeneratedFile[],
+): GeneratedFile[] => {
+  const { ci } = definition;
+  if (!ci) return [];
+  const render = (command: string | undefined) =>
+    command === undefined ? undefined : renderTemplate(command, variables);
+  const commands: CiCommands = {
+    runtime: renderTemplate(ci.runtime, variables),
+    install: renderTemplate(ci.install, variables),
+    lint: render(ci.lint),
+    test: render(ci.test),
+    build: render(ci.build),
+  };
+  const toolchain = TOOLCHAINS[definition.ecosystem];
+  const name = String(variables.projectName);
+  const steps = checks(commands, variables);
+  const docker = files.some((file) => file.path === "Dockerfile");
+
+  switch (variables.ciProvider) {
+    case "github":
+      return [githubWorkflow(name, toolchain, commands, steps, docker)];
+    case "gitlab":
+      return [gitlabPipeline(name, toolchain, commands, steps, docker)];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,79 @@
+import { renderTemplate } from "./templateEngine";
+
+// Generated names become Go and TypeScript identifiers, e.g. `func` in
+// `func (r *funcRepository)` or `const delete = ...`
+export const RESERVED_WORDS = [
+  "break",
+  "case",
+  "catch",
+  "chan",
+  "class",
+  "const",
+  "continue",
+  "default",
+  "defer",
+  "delete",
+  "do",
+  "else",
+  "enum",
+  "export",
+  "extends",
+  "fallthrough",
+  "false",
+  "finally",
+  "for",
+  "func",
+  "function",
+  "go",
+  "goto",
+  "if",
+  "import",
+  "in",
+  "instanceof",
+  "interface",
+  "let",
+  "map",
+  "new",
+  "null",
+  "package",
+  "range",
+  "return",
+  "select",
+  "struct",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "type",
+  "typeof",
+  "var",
+  "void",
+  "while",
+  "with",
+  "yield",
+];
+
+/**
+ * Applies one of the template engine's case filters, e.g. `pascal`
+ */
+export const convert = (value: string, filter: string) =>
+  renderTemplate(`{{ value | ${filter} }}`, { value });
+
+/**
+ * Pads every column but the last to the widest cell, the way gofmt aligns
+ * struct fields and their tags
+ */
+export const alignColumns = (rows: string[][]): string[] => {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+  return rows.map((row) =>
+    row
+      .map((cell, column) =>
+        column < row.length - 1 ? cell.padEnd(widths[column]) : cell,
+      )
+      .join(" "),
+  );
+};
@@ -0,0 +1,226 @@
+import { describe, expect, it } from "vitest";
+import { GeneratedFile } from "../types";
+import { checkConsistency } from "./consistencyChecker";
+import { listFeatures } from "./featureRegistry";
+import { listTemplates } from "./templateRegistry";
+import { generateFiles } from "./templateService";
+
+const file = (path: string, content: string): GeneratedFile => ({
+  path,
+  language: "text",
+  content,
+});
+
+const messages = (files: GeneratedFile[]) =>
+  checkConsistency(files).map(
+    (violation) => `${violation.path}: ${violation.message}`,
+  );
+
+describe("checkConsistency", () => {
+  describe.each(listTemplates().map((template) => [template.slug, template]))(
+    "%s",
+    (_, template) => {
+      it.each([
+        [true, true, false],
+        [false, false, false],
+        [true, true, true],
+        [false, false, true],
+      ])(
+        "passes with tests=%s linter=%s features=%s",
+        (includeTests, includeLinter, withFeatures) => {
+          const features = withFeatures
+            ? listFeatures(template.id).map((feature) => feature.id)
+            : [];
+          const files = generateFiles("user-api", template.id, {
+            includeTests,
+            includeLinter,
+            variables: {},
+            features,
+          });
+          expect(messages(files)).toEqual([]);
+        },
+      );
+
+      const variants = template.variables
+        .filter((variable) => ["router", "di"].includes(variable.name))
+        .flatMap((variable) =>
+          (variable.choices ?? []).map((choice) => [variable.name, choice]),
+        );
+      it.runIf(variants.length > 0).each(variants)(
+        "passes with %s=%s",
+        (name, choice) => {
+          const files = generateFiles("user-api", template.id, {
+            includeTests: true,
+            includeLinter: true,
+            variables: { [name]: choice },
+            features: listFeatures(template.id).map((feature) => feature.id),
+          });
+          expect(messages(files)).toEqual([]);
+        },
+      );
+    },
+  );
+
+  it("reports Dockerfile sources that are not generated", () => {
+    expect(
+      messages([
+        file("go.mod", "module example.com/app\n\ngo 1.21"),
+        file("Dockerfile", "FROM golang\nCOPY go.mod go.sum ./\nCOPY . ."),
+      ]),
+    ).toEqual(['Dockerfile: line 2: COPY source "go.sum" is not generated']);
+  });
+
+  it("reports malformed exec-form arguments instead of throwing", () => {
+    expect(
+      messages([
+        file("go.mod", "module example.com/app\n\ngo 1.21"),
+        file(
+          "Dockerfile",
+          'FROM golang\nCOPY ["go.mod", "./"]\nCOPY ["go.mod" "./"]\nADD [1, "./"]',
+        ),
+      ]),
+    ).toEqual([
+      "Dockerfile: line 3: COPY arguments are not a JSON array of strings",
+      "Dockerfile: line 4: ADD arguments are not a JSON array of strings",
+    ]);
+  });
+
+  it("requires a lockfile for npm ci", () => {
+    const dockerfile = "FROM node\nCOPY package*.json ./\nRUN npm ci";
+    expect(
+      messages([file("package.json", "{}"), file("Dockerfile", dockerfile)]),
+    ).toEqual([
+      'Dockerfile: line 3: "npm ci" needs a package-lock.json, which is not generated',
+    ]);
+    expect(
+      messages([
+        file("package.json", "{}"),
+        file("package-lock.json", "{}"),
+        file("Dockerfile", dockerfile),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("checks files and scripts used by package.json scripts", () => {
+    const pkg = {
+      scripts: {
+        start: "node dist/index.js",
+        dev: "ts-node-dev src/main.ts",
+        lint: 'eslint "lib/**/*.ts"',
+        release: "npm run build && npm publish",
+      },
+    };
+    expect(
+      messages([
+        file("package.json", JSON.stringify(pkg)),
+        file("tsconfig.json", '{"compilerOptions":{"outDir":"./dist"}}'),
+        file("src/index.ts", ""),
+      ]),
+    ).toEqual([
+      'package.json: script "dev" references "src/main.ts", which is not generated',
+      'package.json: script "lint" references "lib/**/*.ts", which is not generated',
+      'package.json: script "release" runs missing script "build"',
+    ]);
+  });
+
+  it("resolves relative and package imports", () => {
+    const pkg = { dependencies: { express: "^4.18.2" } };
+    expect(
+      messages([
+        file("package.json", JSON.stringify(pkg)),
+        file("src/app.ts", "export default {};"),
+        file(
+          "src/index.ts",
+          [
+            "import app from './app';",
+            "import { logger } from './utils/logger';",
+            "import express from 'express';",
+            "import path from 'path';",
+            "import { readFile } from 'node:fs/promises';",
+            "import { Redis } from 'ioredis';",
+          ].join("\n"),
+        ),
+      ]),
+    ).toEqual([
+      'src/index.ts: imports "./utils/logger", which is not generated',
+      'src/index.ts: imports "ioredis", which is not in package.json',
+    ]);
+  });
+
+  it("resolves local Python imports", () => {
+    const main = [
+      "import os",
+      "from fastapi import FastAPI",
+      "from app.routes.health import health_router",
+      "from app.routes.users import users_router",
+      "from .config import settings",
+    ].join("\n");
+    expect(
+      messages([
+        file("app/__init__.py", ""),
+        file("app/main.py", main),
+        file("app/routes/__init__.py", ""),
+        file("app/routes/health.py", ""),
+      ]),
+    ).toEqual([
+      'app/main.py: imports "app.routes.users", which is not generated',
+      'app/main.py: imports ".config", which is not generated',
+    ]);
+  });
+
+  it("ignores import statements inside string literals", () => {
+    expect(
+      messages([
+        file("package.json", "{}"),
+        file(
+          "src/templates.ts",
+          [
+            "export const index = [",
+            "  \"import express from 'express';\",",
+            "  'import (',",
+            "  '\\t\"net/http\"',",
+            "  ')',",
+            "];",
+            "const load = () => import('./missing');",
+          ].join("\n"),
+        ),
+      ]),
+    ).toEqual([
+      'src/templates.ts: imports "./missing", which is not generated',
+    ]);
+  });
+
+  it("resolves Go module and third-party imports", () => {
+    const goMod = [
+      "module example.com/app",
+      "",
+      "go 1.21",
+      "",
+      "require (",
+      "\tgo.uber.org/zap v1.26.0",
+      ")",
+    ].join("\n");
+    const main = [
+      "package main",
+      "",
+      "import (",
+      '\t"net/http"',
+      "",
+      '\t"example.com/app/internal/handler"',
+      '\t"example.com/app/internal/missing"',
+      '\t"github.com/go-chi/chi/v5"',
+      '\tzaplog "go.uber.org/zap"',
+      ")",
+    ].join("\n");
+    expect(
+      messages([
+        file("go.mod", goMod),
+        file("cmd/api/main.go", main),
+        file("internal/handler/user.go", "package handler"),
+      ]),
+    ).toEqual([
+      'cmd/api/main.go: imports "example.com/app/internal/missing", but internal/missing has no Go files',
+      'cmd/api/main.go: imports "github.com/go-chi/chi/v5", which is not required in go.mod',
+    ]);
+  });
+});
@@ -0,0 +1,363 @@
+import { builtinModules } from "node:module";
+import { GeneratedFile } from "../types";
+
+export interface ConsistencyViolation {
+  path: string;
+  message: string;
+}
+
+const SCRIPT_EXTENSIONS = /\.(ts|tsx|js|mjs|cjs|json)$/;
+const LOCKFILES = ["package-lock.json", "npm-shrinkwrap.json"];
+
+const dirname = (path: string) =>
+  path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+
+/**
+ * Resolves `.` and `..` segments; paths are relative to the project root
+ */
+const joinPath = (...parts: string[]): string =>
+  parts
+    .join("/")
+    .split("/")
+    .reduce<string[]>((segments, segment) => {
+      if (segment === "..") segments.pop();
+      else if (segment !== "" && segment !== ".") segments.push(segment);
+      return segments;
+    }, [])
+    .join("/");
+
+/**
+ * Converts a shell/Docker glob to a regular expression over project paths
+ */
+const globToRegExp = (glob: string): RegExp =>
+  new RegExp(
+    `^${glob
+      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+      .replace(/\*\*\/?/g, "\u0000")
+      .replace(/\*/g, "[^/]*")
+      .replace(/\?/g, "[^/]")
+      .replace(/\u0000/g, "(?:.*/)?")}$`,
+  );
+
+const exists = (paths: string[], target: string): boolean => {
+  if (target === "") return true;
+  if (/[*?]/.test(target)) {
+    const pattern = globToRegExp(target);
+    return paths.some((path) => pattern.test(path));
+  }
+  return paths.some((path) => path === target || path.startsWith(`${target}/`));
+};
+
+const isDockerfile = (path: string) =>
+  /(^|\/)Dockerfile(\.[\w-]+)?$/.test(path) || path.endsWith(".Dockerfile");
+
+/**
+ * Reads exec-form arguments such as `["package.json", "./"]`, or returns
+ * null when they are malformed
+ */
+const parseExecForm = (args: string): string[] | null => {
+  try {
+    const parsed: unknown = JSON.parse(args);
+    return Array.isArray(parsed) &&
+      parsed.every((arg) => typeof arg === "string")
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const checkDockerfile = (
+  file: GeneratedFile,
+  paths: string[],
+): ConsistencyViolation[] => {
+  const context = dirname(file.path);
+  const violations: ConsistencyViolation[] = [];
+  const copied: string[] = [];
+
+  file.content.split("\n").forEach((line, i) => {
+    const instruction = /^\s*(COPY|ADD|RUN)\s+(.*)$/i.exec(line);
+    if (!instruction) return;
+    const [, keyword, args] = instruction;
+
+    if (keyword.toUpperCase() === "RUN") {
+      if (
+        /\bnpm\s+ci\b/.test(args) &&
+        !LOCKFILES.some((lockfile) => copied.includes(lockfile))
+      ) {
+        violations.push({
+          path: file.path,
+          message: `line ${i + 1}: "npm ci" needs a package-lock.json, which is not generated`,
+        });
+      }
+      return;
+    }
+
+    if (/--from=/.test(args)) return;
+    const operands = args.trim().startsWith("[")
+      ? parseExecForm(args)
+      : args.split(/\s+/).filter((arg) => !arg.startsWith("--"));
+    if (!operands) {
+      violations.push({
+        path: file.path,
+        message: `line ${i + 1}: ${keyword} arguments are not a JSON array of strings`,
+      });
+      return;
+    }
+    operands.slice(0, -1).forEach((source) => {
+      const target = joinPath(context, source);
+      if (exists(paths, target)) {
+        copied.push(
+          ...paths.filter(
+            (path) => path === target || globToRegExp(target).test(path),
+          ),
+        );
+      } else {
+        violations.push({
+          path: file.path,
+          message: `line ${i + 1}: ${keyword} source "${source}" is not generated`,
+        });
+      }
+    });
+  });
+  return violations;
+};
+
+const readJson = (file: GeneratedFile | undefined) => {
+  if (!file) return undefined;
+  try {
+    return JSON.parse(file.content);
+  } catch {
+    return undefined;
+  }
+};
+
+const checkPackageJson = (
+  file: GeneratedFile,
+  paths: string[],
+  outDir: string | undefined,
+): ConsistencyViolation[] => {
+  const pkg = readJson(file);
+  if (!pkg) {
+    return [{ path: file.path, message: "is not valid JSON" }];
+  }
+  const scripts: Record<string, string> = pkg.scripts ?? {};
+  const isBuildOutput = (path: string) =>
+    outDir !== undefined && exists([path], outDir);
+  const violations: ConsistencyViolation[] = [];
+
+  Object.entries(scripts).forEach(([name, command]) => {
+    for (const match of command.matchAll(
+      /\bnpm\s+run(?:-script)?\s+([\w:-]+)/g,
+    )) {
+      if (!(match[1] in scripts)) {
+        violations.push({
+          path: file.path,
+          message: `script "${name}" runs missing script "${match[1]}"`,
+        });
+      }
+    }
+    command
+      .split(/\s+/)
+      .map((token) => token.replace(/^["']|["']$/g, ""))
+      .filter(
+        (token) =>
+          !token.startsWith("-") &&
+          !token.includes(":") &&
+          (SCRIPT_EXTENSIONS.test(token) || /[*?]/.test(token)),
+      )
+      .map((token) => joinPath(token))
+      .filter((path) => !isBuildOutput(path) && !exists(paths, path))
+      .forEach((path) =>
+        violations.push({
+          path: file.path,
+          message: `script "${name}" references "${path}", which is not generated`,
+        }),
+      );
+  });
+  return violations;
+};
+
+/**
+ * Static imports and re-exports start a statement, while dynamic imports and
+ * require calls may appear anywhere. Specifiers never contain whitespace, so
+ * source code embedded in string literals does not match.
+ */
+const TS_IMPORT =
+  /(?:^[ \t]*(?:import|export)\b[^'";]*?\bfrom\s*|^[ \t]*import\s*|\b(?:import|require)\(\s*)['"]([^'"\s]+)['"]/gm;
+
+const packageName = (specifier: string) =>
+  specifier
+    .replace(/^node:/, "")
+    .split("/")
+    .slice(0, specifier.startsWith("@") ? 2 : 1)
+    .join("/");
+
+const checkScriptImports = (
+  file: GeneratedFile,
+  paths: string[],
+  dependencies: string[] | undefined,
+): ConsistencyViolation[] => {
+  const violations: ConsistencyViolation[] = [];
+  for (const [, specifier] of file.content.matchAll(TS_IMPORT)) {
+    if (specifier.startsWith(".")) {
+      const base = joinPath(dirname(file.path), specifier);
+      const candidates = [
+        base,
+        base.replace(/\.js$/, ".ts"),
+        ...["ts", "tsx", "js", "json"].map((ext) => `${base}.${ext}`),
+        ...["ts", "js"].map((ext) => `${base}/index.${ext}`),
+      ];
+      if (!candidates.some((candidate) => paths.includes(candidate))) {
+        violations.push({
+          path: file.path,
+          message: `imports "${specifier}", which is not generated`,
+        });
+      }
+      continue;
+    }
+    const name = packageName(specifier);
+    if (
+      dependencies &&
+      !specifier.startsWith("node:") &&
+      !builtinModules.includes(name) &&
+      !dependencies.includes(name)
+    ) {
+      violations.push({
+        path: file.path,
+        message: `imports "${name}", which is not in package.json`,
+      });
+    }
+  }
+  return violations;
+};
+
+const goImports = (content: string): string[] => {
+  const block = /^import\s*\(([\s\S]*?)^\)/m.exec(content);
+  if (block) {
+    return Array.from(block[1].matchAll(/"([^"]+)"/g), (match) => match[1]);
+  }
+  const single = /^import\s+(?:[\w.]+\s+)?"([^"]+)"/m.exec(content);
+  return single ? [single[1]] : [];
+};
+
+const parseGoMod = (content: string) => ({
+  module: /^module\s+(\S+)/m.exec(content)?.[1] ?? "",
+  requires: Array.from(
+    content.matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w./-]+)\s+v[\w.+-]+/gm),
+    (match) => match[1],
+  ),
+});
+
+const checkGoImports = (
+  file: GeneratedFile,
+  paths: string[],
+  goMod: { module: string; requires: string[] },
+): ConsistencyViolation[] =>
+  goImports(file.content).flatMap((importPath): ConsistencyViolation[] => {
+    if (
+      importPath === goMod.module ||
+      importPath.startsWith(`${goMod.module}/`)
+    ) {
+      const dir = importPath.slice(goMod.module.length + 1);
+      const hasPackage = paths.some(
+        (path) => dirname(path) === dir && path.endsWith(".go"),
+      );
+      return hasPackage
+        ? []
+        : [
+            {
+              path: file.path,
+              message: `imports "${importPath}", but ${dir || "."} has no Go files`,
+            },
+          ];
+    }
+    // Standard library import paths have no dot in their first element
+    if (!importPath.split("/")[0].includes(".")) return [];
+    const required = goMod.requires.some(
+      (module) => importPath === module || importPath.startsWith(`${module}/`),
+    );
+    return required
+      ? []
+      : [
+          {
+            path: file.path,
+            message: `imports "${importPath}", which is not required in go.mod`,
+          },
+        ];
+  });
+
+const PYTHON_IMPORT =
+  /^\s*(?:from\s+(\.*[\w.]*)\s+import\b|import\s+([\w.]+))/gm;
+
+/**
+ * Resolves relative imports and imports of the project's own top-level
+ * packages; anything else is a third-party or standard library module
+ */
+const checkPythonImports = (
+  file: GeneratedFile,
+  paths: string[],
+): ConsistencyViolation[] => {
+  const violations: ConsistencyViolation[] = [];
+  for (const [, from, imported] of file.content.matchAll(PYTHON_IMPORT)) {
+    const module = from ?? imported;
+    const dots = /^\.*/.exec(module)![0].length;
+    const name = module.slice(dots);
+    let base: string;
+    if (dots > 0) {
+      const parents = Array<string>(dots - 1).fill("..");
+      base = joinPath(dirname(file.path), ...parents, ...name.split("."));
+    } else {
+      const [top] = name.split(".");
+      const local = [`${top}.py`, `${top}/__init__.py`];
+      if (!local.some((path) => paths.includes(path))) continue;
+      base = name.split(".").join("/");
+    }
+    if (
+      ![`${base}.py`, `${base}/__init__.py`].some((path) =>
+        paths.includes(path),
+      )
+    ) {
+      violations.push({
+        path: file.path,
+        message: `imports "${module}", which is not generated`,
+      });
+    }
+  }
+  return violations;
+};
+
+/**
+ * Cross-references a generated project against itself: files copied by
+ * Dockerfiles, files and scripts used by package.json scripts, and relative,
+ * package and module imports must all resolve to something that is generated
+ */
+export const checkConsistency = (
+  files: GeneratedFile[],
+): ConsistencyViolation[] => {
+  const paths = files.map((file) => file.path);
+  const find = (path: string) => files.find((file) => file.path === path);
+  const packageJson = find("package.json");
+  const pkg = readJson(packageJson);
+  const dependencies = pkg
+    ? Object.keys({ ...pkg.dependencies, ...pkg.devDependencies })
+    : undefined;
+  const outDir = readJson(find("tsconfig.json"))?.compilerOptions?.outDir;
+  const goModFile = find("go.mod");
+  const goMod = goModFile && parseGoMod(goModFile.content);
+
+  return files.flatMap((file) => {
+    if (isDockerfile(file.path)) return checkDockerfile(file, paths);
+    if (file === packageJson) {
+      return checkPackageJson(file, paths, outDir && joinPath(outDir));
+    }
+    if (/\.(ts|tsx|js|mjs|cjs)$/.test(file.path)) {
+      return checkScriptImports(file, paths, dependencies);
+    }
+    if (file.path.endsWith(".go") && goMod) {
+      return checkGoImports(file, paths, goMod);
+    }
+    if (file.path.endsWith(".py")) return checkPythonImports(file, paths);
+    return [];
+  });
+};
@@ -0,0 +1,140 @@
+import { HorizontalPodAutoscaler } from "kubernetes-models/autoscaling/v2/HorizontalPodAutoscaler";
+import { Deployment } from "kubernetes-models/apps/v1/Deployment";
+import { ConfigMap } from "kubernetes-models/v1/ConfigMap";
+import { Service } from "kubernetes-models/v1/Service";
+import { describe, expect, it } from "vitest";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { GeneratedFile, TemplateType } from "../types";
+import { listFeatures } from "./featureRegistry";
+import { generateFiles } from "./templateService";
+
+const MODELS: Record<string, new (data: never) => { validate(): void }> = {
+  Deployment,
+  Service,
+  ConfigMap,
+  HorizontalPodAutoscaler,
+};
+
+const generate = (template: TemplateType, deployTarget: string) =>
+  generateFiles("user-api", template, {
+    includeTests: true,
+    includeLinter: true,
+    variables: { deployTarget },
+    features: listFeatures()
+      .filter((feature) => feature.templates.includes(template))
+      .map((feature) => feature.id),
+  });
+
+const lookup = (values: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .reduce((value, key) => (value as Record<string, unknown>)[key], values);
+
+/**
+ * Renders the subset of Helm's template language the generated chart uses
+ */
+const renderChart = (files: GeneratedFile[]) => {
+  const content = (path: string) =>
+    files.find((file) => file.path === path)!.content;
+  const chart = parseYaml(content("chart/Chart.yaml"));
+  const values = parseYaml(content("chart/values.yaml"));
+
+  return files
+    .filter((file) => file.path.startsWith("chart/templates/"))
+    .map((file) =>
+      file.content
+        .replace(
+          /\s*\{\{- toYaml \.Values\.([\w.]+) \| nindent (\d+) \}\}/g,
+          (_, path: string, indent: string) =>
+            `\n${stringifyYaml(lookup(values, path))
+              .trimEnd()
+              .replace(/^/gm, " ".repeat(Number(indent)))}`,
+        )
+        .replace(/\{\{ \.Values\.([\w.]+) \}\}/g, (_, path: string) =>
+          String(lookup(values, path)),
+        )
+        .replace(/\{\{ \.Release\.Name \}\}/g, "user-api")
+        .replace(/\{\{ \.Chart\.Name \}\}/g, chart.name),
+    );
+};
+
+const manifests = (files: GeneratedFile[]) =>
+  files
+    .filter((file) => file.path.startsWith("k8s/"))
+    .map((file) => file.content);
+
+const validate = (documents: string[]) =>
+  documents.map((document) => {
+    expect(document).not.toContain("{{");
+    // Shared label objects must be written out, not as YAML anchors
+    expect(document).not.toMatch(/(?:^|\s)[&*]a\d+\b/m);
+    const resource = parseYaml(document);
+    new MODELS[resource.kind](resource as never).validate();
+    return resource;
+  });
+
+describe("generateDeployment", () => {
+  describe.each([TemplateType.TYPESCRIPT_EXPRESS, TemplateType.GO_CLEAN_ARCH])(
+    "%s",
+    (template) => {
+      it.each([
+        ["kubernetes", manifests],
+        ["helm", renderChart],
+      ])("emits valid %s resources", (deployTarget, render) => {
+        const resources = validate(render(generate(template, deployTarget)));
+
+        expect(resources.map((resource) => resource.kind).sort()).toEqual([
+          "ConfigMap",
+          "Deployment",
+          "HorizontalPodAutoscaler",
+          "Service",
+        ]);
+        const deployment = resources.find(
+          (resource) => resource.kind === "Deployment",
+        );
+        const [container] = deployment.spec.template.spec.containers;
+        const port = template === TemplateType.GO_CLEAN_ARCH ? 8080 : 3000;
+        expect(container.ports).toEqual([
+          { name: "http", containerPort: port },
+        ]);
+        expect(container.livenessProbe.httpGet.path).toBe("/health/live");
+        expect(container.readinessProbe.httpGet.path).toBe("/health/ready");
+        expect(container.resources.limits).toBeDefined();
+        expect(
+          resources.find((resource) => resource.kind === "Service").spec.ports,
+        ).toEqual([{ name: "http", port, targetPort: "http" }]);
+      });
+    },
+  );
+
+  it("keeps credentials and variables without a default out of the ConfigMap", () => {
+    const [configMap] = validate(
+      manifests(generate(TemplateType.GO_CLEAN_ARCH, "kubernetes")).filter(
+        (document) => document.includes("kind: ConfigMap"),
+      ),
+    );
+
+    expect(configMap.metadata.name).toBe("user-api");
+    expect(configMap.data.PORT).toBe("8080");
+    expect(configMap.data).not.toHaveProperty("JWT_SECRET");
+    expect(configMap.data).not.toHaveProperty("DATABASE_URL");
+    expect(configMap.data).not.toHaveProperty("JWT_ISSUER");
+  });
+
+  it("generates nothing by default or for templates without probes", () => {
+    const paths = (template: string, variables = {}) =>
+      generateFiles("user-api", template, {
+        includeTests: true,
+        includeLinter: true,
+        variables,
+        features: [],
+      }).map((file) => file.path);
+
+    expect(paths(TemplateType.TYPESCRIPT_EXPRESS)).not.toContain(
+      "k8s/deployment.yaml",
+    );
+    expect(
+      paths("Python/FastAPI", { deployTarget: "kubernetes" }),
+    ).not.toContain("k8s/deployment.yaml");
+  });
+});
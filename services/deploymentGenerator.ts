@@ -0,0 +1,277 @@
+import { stringify as stringifyYaml } from "yaml";
+import {
+  EnvVariable,
+  GeneratedFile,
+  HealthProbes,
+  TemplateDefinition,
+  TemplateVariables,
+} from "../types";
+
+const RESOURCES = {
+  requests: { cpu: "100m", memory: "128Mi" },
+  limits: { cpu: "500m", memory: "512Mi" },
+};
+
+const AUTOSCALING = {
+  minReplicas: 2,
+  maxReplicas: 5,
+  targetCPUUtilizationPercentage: 70,
+};
+
+/**
+ * Credentials and variables without a default are left to the Secret, which
+ * also overrides any ConfigMap value of the same name
+ */
+const configData = (env: EnvVariable[]): Record<string, string> =>
+  Object.fromEntries(
+    env
+      .filter((variable) => !variable.secret && variable.default !== "")
+      .map((variable) => [variable.name, variable.default]),
+  );
+
+const yamlFile = (path: string, value: unknown): GeneratedFile => ({
+  path,
+  language: "yaml",
+  content: stringifyYaml(value, { aliasDuplicateObjects: false }),
+});
+
+const kubernetesManifests = (
+  name: string,
+  port: number,
+  probes: HealthProbes,
+  env: EnvVariable[],
+): GeneratedFile[] => {
+  const labels = { "app.kubernetes.io/name": name };
+  const metadata = { name, labels };
+
+  return [
+    yamlFile("k8s/deployment.yaml", {
+      apiVersion: "apps/v1",
+      kind: "Deployment",
+      metadata,
+      spec: {
+        // Replicas are left to the HorizontalPodAutoscaler
+        selector: { matchLabels: labels },
+        template: {
+          metadata: { labels },
+          spec: {
+            containers: [
+              {
+                name,
+                image: `${name}:latest`,
+                imagePullPolicy: "IfNotPresent",
+                ports: [{ name: "http", containerPort: port }],
+                envFrom: [
+                  { configMapRef: { name } },
+                  { secretRef: { name, optional: true } },
+                ],
+                livenessProbe: {
+                  httpGet: { path: probes.liveness, port: "http" },
+                  initialDelaySeconds: 5,
+                  periodSeconds: 10,
+                },
+                readinessProbe: {
+                  httpGet: { path: probes.readiness, port: "http" },
+                  periodSeconds: 5,
+                },
+                resources: RESOURCES,
+              },
+            ],
+          },
+        },
+      },
+    }),
+    yamlFile("k8s/service.yaml", {
+      apiVersion: "v1",
+      kind: "Service",
+      metadata,
+      spec: {
+        selector: labels,
+        ports: [{ name: "http", port, targetPort: "http" }],
+      },
+    }),
+    yamlFile("k8s/configmap.yaml", {
+      apiVersion: "v1",
+      kind: "ConfigMap",
+      metadata,
+      data: configData(env),
+    }),
+    yamlFile("k8s/hpa.yaml", {
+      apiVersion: "autoscaling/v2",
+      kind: "HorizontalPodAutoscaler",
+      metadata,
+      spec: {
+        scaleTargetRef: { apiVersion: "apps/v1", kind: "Deployment", name },
+        minReplicas: AUTOSCALING.minReplicas,
+        maxReplicas: AUTOSCALING.maxReplicas,
+        metrics: [
+          {
+            type: "Resource",
+            resource: {
+              name: "cpu",
+              target: {
+                type: "Utilization",
+                averageUtilization: AUTOSCALING.targetCPUUtilizationPercentage,
+              },
+            },
+          },
+        ],
+      },
+    }),
+  ];
+};
+
+const HELM_METADATA = `metadata:
+  name: {{ .Release.Name }}
+  labels:
+    app.kubernetes.io/name: {{ .Chart.Name }}
+    app.kubernetes.io/instance: {{ .Release.Name }}`;
+
+const helmChart = (
+  name: string,
+  description: string,
+  port: number,
+  probes: HealthProbes,
+  env: EnvVariable[],
+): GeneratedFile[] => [
+  yamlFile("chart/Chart.yaml", {
+    apiVersion: "v2",
+    name,
+    description,
+    type: "application",
+    version: "0.1.0",
+    appVersion: "1.0.0",
+  }),
+  yamlFile("chart/values.yaml", {
+    image: { repository: name, tag: "latest", pullPolicy: "IfNotPresent" },
+    service: { port },
+    resources: RESOURCES,
+    autoscaling: AUTOSCALING,
+    env: configData(env),
+  }),
+  {
+    path: "chart/templates/deployment.yaml",
+    language: "yaml",
+    content: `apiVersion: apps/v1
+kind: Deployment
+${HELM_METADATA}
+spec:
+  # Replicas are left to the HorizontalPodAutoscaler
+  selector:
+    matchLabels:
+      app.kubernetes.io/name: {{ .Chart.Name }}
+      app.kubernetes.io/instance: {{ .Release.Name }}
+  template:
+    metadata:
+      labels:
+        app.kubernetes.io/name: {{ .Chart.Name }}
+        app.kubernetes.io/instance: {{ .Release.Name }}
+    spec:
+      containers:
+        - name: {{ .Chart.Name }}
+          image: "{{ .Values.image.repository }}:{{ .Values.image.tag }}"
+          imagePullPolicy: {{ .Values.image.pullPolicy }}
+          ports:
+            - name: http
+              containerPort: ${port}
+          envFrom:
+            - configMapRef:
+                name: {{ .Release.Name }}
+            - secretRef:
+                name: {{ .Release.Name }}
+                optional: true
+          livenessProbe:
+            httpGet:
+              path: ${probes.liveness}
+              port: http
+            initialDelaySeconds: 5
+            periodSeconds: 10
+          readinessProbe:
+            httpGet:
+              path: ${probes.readiness}
+              port: http
+            periodSeconds: 5
+          resources:
+            {{- toYaml .Values.resources | nindent 12 }}
+`,
+  },
+  {
+    path: "chart/templates/service.yaml",
+    language: "yaml",
+    content: `apiVersion: v1
+kind: Service
+${HELM_METADATA}
+spec:
+  selector:
+    app.kubernetes.io/name: {{ .Chart.Name }}
+    app.kubernetes.io/instance: {{ .Release.Name }}
+  ports:
+    - name: http
+      port: {{ .Values.service.port }}
+      targetPort: http
+`,
+  },
+  {
+    path: "chart/templates/configmap.yaml",
+    language: "yaml",
+    content: `apiVersion: v1
+kind: ConfigMap
+${HELM_METADATA}
+data:
+  {{- toYaml .Values.env | nindent 2 }}
+`,
+  },
+  {
+    path: "chart/templates/hpa.yaml",
+    language: "yaml",
+    content: `apiVersion: autoscaling/v2
+kind: HorizontalPodAutoscaler
+${HELM_METADATA}
+spec:
+  scaleTargetRef:
+    apiVersion: apps/v1
+    kind: Deployment
+    name: {{ .Release.Name }}
+  minReplicas: {{ .Values.autoscaling.minReplicas }}
+  maxReplicas: {{ .Values.autoscaling.maxReplicas }}
+  metrics:
+    - type: Resource
+      resource:
+        name: cpu
+        target:
+          type: Utilization
+          averageUtilization: {{ .Values.autoscaling.targetCPUUtilizationPercentage }}
+`,
+  },
+];
+
+/**
+ * Generates Kubernetes manifests or a Helm chart for the `deployTarget`
+ * template variable: a Deployment probing the template's health endpoints, a
+ * Service, a ConfigMap with the `env` defaults and a CPU-based
+ * HorizontalPodAutoscaler
+ */
+export const generateDeployment = (
+  definition: TemplateDefinition,
+  variables: TemplateVariables,
+  env: EnvVariable[],
+): GeneratedFile[] => {
+  if (!definition.probes) return [];
+  const name = String(variables.projectName);
+  const port = Number(variables.port);
+
+  switch (variables.deployTarget) {
+    case "kubernetes":
+      return kubernetesManifests(name, port, definition.probes, env);
+    case "helm":
+      return helmChart(
+        name,
+        String(variables.description),
+        port,
+        definition.probes,
+        env,
+      );
+    default:
+      return [];
+  }
+};
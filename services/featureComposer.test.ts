@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { parse as parseYaml } from "yaml";
+import { TemplateType } from "../types";
+import { generateFiles } from "./templateService";
+
+const compose = (template: string, features: string[]) => {
+  const file = generateFiles("user-api", template, {
+    includeTests: true,
+    includeLinter: true,
+    variables: {},
+    features,
+  }).find((candidate) => candidate.path === "docker-compose.yml");
+  return file && parseYaml(file.content);
+};
+
+describe("applyFeatures", () => {
+  it("runs the service with hot reload and a healthcheck on /health", () => {
+    const { services } = compose(TemplateType.TYPESCRIPT_EXPRESS, []);
+
+    expect(Object.keys(services)).toEqual(["app"]);
+    expect(services.app).toMatchObject({
+      build: { context: ".", dockerfile: "Dockerfile.dev" },
+      volumes: ["./src:/app/src"],
+      ports: ["3000:3000"],
+      environment: { PORT: "3000" },
+      healthcheck: {
+        test: ["CMD", "wget", "-qO-", "http://localhost:3000/health"],
+      },
+    });
+    expect(services.app).not.toHaveProperty("depends_on");
+  });
+
+  it("waits for backing services that define a healthcheck", () => {
+    const { services } = compose(TemplateType.GO_CLEAN_ARCH, [
+      "redis",
+      "nats",
+      "observability",
+    ]);
+
+    expect(services.app.depends_on).toEqual({
+      postgres: { condition: "service_healthy" },
+      redis: { condition: "service_healthy" },
+      nats: { condition: "service_started" },
+    });
+    expect(services).toHaveProperty("jaeger");
+  });
+
+  it("adds nothing to templates without a compose service", () => {
+    expect(compose("Python/FastAPI", [])).toBeUndefined();
+  });
+});
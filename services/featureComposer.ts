@@ -0,0 +1,99 @@
+import { stringify as stringifyYaml } from "yaml";
+import {
+  EnvVariable,
+  FeatureDefinition,
+  GeneratedFile,
+  TemplateValue,
+  TemplateVariables,
+} from "../types";
+import { renderManifest } from "./manifestLoader";
+import { renderTemplateValue } from "./templateEngine";
+
+const hasHealthcheck = (service: TemplateValue): boolean =>
+  typeof service === "object" &&
+  !Array.isArray(service) &&
+  "healthcheck" in service;
+
+/**
+ * Merges what the selected features contribute besides dependencies into
+ * the generated project: their files and a docker-compose.yml running the
+ * service, as `app` describes it and configured by `env`, next to its
+ * backing services
+ */
+export const applyFeatures = (
+  files: GeneratedFile[],
+  features: FeatureDefinition[],
+  variables: TemplateVariables,
+  env: EnvVariable[],
+  app?: Record<string, TemplateValue>,
+): GeneratedFile[] => {
+  if (features.length === 0 && !app) return files;
+
+  const result = [...files];
+  const addFile = (file: GeneratedFile, owner: string) => {
+    if (result.some((existing) => existing.path === file.path)) {
+      throw new Error(`Feature "${owner}" would overwrite ${file.path}`);
+    }
+    result.push(file);
+  };
+  const services: Record<string, TemplateValue> = {};
+
+  features.forEach(({ id, manifest }) => {
+    renderManifest(manifest, variables).forEach((file) => addFile(file, id));
+    Object.entries(manifest.services).forEach(([name, service]) => {
+      services[name] = renderTemplateValue(service, variables);
+    });
+  });
+
+  // Services behind a compose profile only start when it is enabled, so the
+  // app cannot depend on them. The app waits for the others to report healthy
+  // where they define a healthcheck
+  const dependencies = Object.entries(services)
+    .filter(
+      ([, service]) =>
+        typeof service !== "object" ||
+        Array.isArray(service) ||
+        !("profiles" in service),
+    )
+    .map(([name, service]) => [
+      name,
+      {
+        condition: hasHealthcheck(service)
+          ? "service_healthy"
+          : "service_started",
+      },
+    ]);
+  const port = String(variables.port);
+  addFile(
+    {
+      path: "docker-compose.yml",
+      language: "yaml",
+      content: stringifyYaml({
+        services: {
+          app: {
+            ...(app
+              ? (renderTemplateValue(app, variables) as Record<
+                  string,
+                  TemplateValue
+                >)
+              : { build: "." }),
+            ports: [`${port}:${port}`],
+            environment: Object.fromEntries(
+              env.map((variable) => [
+                variable.name,
+                variable.compose ?? variable.default,
+              ]),
+            ),
+            ...(dependencies.length > 0
+              ? { depends_on: Object.fromEntries(dependencies) }
+              : {}),
+          },
+          ...services,
+        },
+      }),
+    },
+    "compose",
+  );
+
+  return result;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { FeatureDefinition, TemplateType } from "../types";
+import { registerFeature, resolveFeatures } from "./featureRegistry";
+
+const feature = (
+  id: string,
+  dependsOn: string[] = [],
+  templates: string[] = [TemplateType.TYPESCRIPT_EXPRESS],
+): FeatureDefinition => ({
+  id,
+  name: id,
+  description: id,
+  dependsOn,
+  templates,
+  manifest: {
+    variables: [],
+    files: [],
+    npm: [],
+    go: [],
+    env: [],
+    services: {},
+  },
+});
+
+// Test-only features next to the built-in ones
+[
+  feature("test-cycle-a", ["test-cycle-b"]),
+  feature("test-cycle-b", ["test-cycle-c"]),
+  feature("test-cycle-c", ["test-cycle-a"]),
+  feature("test-go-only", [], [TemplateType.GO_CLEAN_ARCH]),
+  feature("test-needs-go-only", ["test-go-only"]),
+].forEach(registerFeature);
+
+const ids = (features: FeatureDefinition[]) =>
+  features.map((resolved) => resolved.id);
+
+describe("resolveFeatures", () => {
+  it("puts dependencies before the features that need them", () => {
+    expect(
+      ids(resolveFeatures(["redis", "kafka"], TemplateType.GO_CLEAN_ARCH)),
+    ).toEqual(["postgres", "redis", "kafka"]);
+  });
+
+  it("includes a dependency once, however often it is selected", () => {
+    expect(
+      ids(
+        resolveFeatures(
+          ["postgres", "redis", "postgres"],
+          TemplateType.TYPESCRIPT_EXPRESS,
+        ),
+      ),
+    ).toEqual(["postgres", "redis"]);
+  });
+
+  it("rejects circular dependencies", () => {
+    expect(() =>
+      resolveFeatures(["test-cycle-a"], TemplateType.TYPESCRIPT_EXPRESS),
+    ).toThrow(
+      "Circular feature dependency: test-cycle-a -> test-cycle-b -> test-cycle-c -> test-cycle-a",
+    );
+  });
+
+  it("rejects a feature the template does not support", () => {
+    expect(() => resolveFeatures(["redis"], TemplateType.CLI_TOOL)).toThrow(
+      'Feature "redis" is not available for Node.js CLI (temp-gen)',
+    );
+  });
+
+  it("names the feature that pulled in an unsupported dependency", () => {
+    expect(() =>
+      resolveFeatures(["test-needs-go-only"], TemplateType.TYPESCRIPT_EXPRESS),
+    ).toThrow(
+      'Feature "test-go-only" (required by "test-needs-go-only") is not available for TypeScript/Express',
+    );
+  });
+
+  it("rejects unknown features", () => {
+    expect(() =>
+      resolveFeatures(["graphql"], TemplateType.TYPESCRIPT_EXPRESS),
+    ).toThrow('Unknown feature "graphql"');
+  });
+});
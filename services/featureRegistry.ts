@@ -0,0 +1,69 @@
+import { FeatureDefinition } from "../types";
+import { builtInFeatures } from "../features";
+
+const registry = new Map<string, FeatureDefinition>();
+
+/**
+ * Registers a feature module so templates can opt into it
+ */
+export const registerFeature = (definition: FeatureDefinition): void => {
+  if (registry.has(definition.id)) {
+    throw new Error(`Feature "${definition.id}" is already registered`);
+  }
+  registry.set(definition.id, definition);
+};
+
+/**
+ * Looks up a registered feature by id
+ */
+export const getFeature = (id: string): FeatureDefinition => {
+  const definition = registry.get(id);
+  if (!definition) {
+    throw new Error(`Unknown feature "${id}"`);
+  }
+  return definition;
+};
+
+/**
+ * Lists registered features, optionally only those a template supports
+ */
+export const listFeatures = (templateId?: string): FeatureDefinition[] =>
+  Array.from(registry.values()).filter(
+    (feature) => !templateId || feature.templates.includes(templateId),
+  );
+
+/**
+ * Expands the selected features with everything they depend on, ordered so
+ * that dependencies come before the features that need them
+ */
+export const resolveFeatures = (
+  ids: string[],
+  templateId: string,
+): FeatureDefinition[] => {
+  const resolved: FeatureDefinition[] = [];
+  const visiting: string[] = [];
+
+  const visit = (id: string, requiredBy?: string) => {
+    if (resolved.some((feature) => feature.id === id)) return;
+    if (visiting.includes(id)) {
+      throw new Error(
+        `Circular feature dependency: ${[...visiting, id].join(" -> ")}`,
+      );
+    }
+    const feature = getFeature(id);
+    if (!feature.templates.includes(templateId)) {
+      throw new Error(
+        `Feature "${id}"${requiredBy ? ` (required by "${requiredBy}")` : ""} is not available for ${templateId}`,
+      );
+    }
+    visiting.push(id);
+    feature.dependsOn.forEach((dependency) => visit(dependency, id));
+    visiting.pop();
+    resolved.push(feature);
+  };
+
+  ids.forEach((id) => visit(id));
+  return resolved;
+};
+
+builtInFeatures.forEach(registerFeature);
@@ -0,0 +1,65 @@
+import { GeneratedFile } from "../types";
+
+export class FilePatchError extends Error {
+  constructor(
+    public readonly path: string,
+    reason: string,
+  ) {
+    super(`Cannot update ${path}: ${reason}`);
+    this.name = "FilePatchError";
+  }
+}
+
+export interface FileEdit {
+  /** Where to insert; with several matches the last one is used */
+  anchor: RegExp;
+  text: string;
+  position?: "before" | "after";
+  /** Skips the edit when the file already contains this text */
+  unless?: string;
+}
+
+const applyEdit = (path: string, content: string, edit: FileEdit): string => {
+  if (edit.unless !== undefined && content.includes(edit.unless)) {
+    return content;
+  }
+  const flags = edit.anchor.flags.includes("g")
+    ? edit.anchor.flags
+    : `${edit.anchor.flags}g`;
+  const matches = Array.from(content.matchAll(new RegExp(edit.anchor, flags)));
+  const match = matches[matches.length - 1];
+  if (!match) {
+    throw new FilePatchError(
+      path,
+      `${edit.anchor} not found; was the file changed after generation?`,
+    );
+  }
+  const offset =
+    edit.position === "before" ? match.index : match.index + match[0].length;
+  return content.slice(0, offset) + edit.text + content.slice(offset);
+};
+
+/**
+ * Inserts text into a generated file next to anchors in its existing code,
+ * e.g. a route next to the routes already registered
+ */
+export const patchFile = (
+  files: GeneratedFile[],
+  path: string,
+  edits: FileEdit[],
+): GeneratedFile[] => {
+  if (!files.some((file) => file.path === path)) {
+    throw new FilePatchError(path, "the file is not part of the project");
+  }
+  return files.map((file) =>
+    file.path === path
+      ? {
+          ...file,
+          content: edits.reduce(
+            (content, edit) => applyEdit(path, content, edit),
+            file.content,
+          ),
+        }
+      : file,
+  );
+};
@@ -0,0 +1,315 @@
+import { spawnSync } from "node:child_process";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import ts from "typescript";
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  GeneratedFile,
+  ProjectOptions,
+  TemplateDefinition,
+  TemplateVariables,
+} from "../types";
+import { listFeatures } from "./featureRegistry";
+import {
+  addResource,
+  getResourceGenerator,
+  parseResourceFields,
+} from "./resourceScaffolder";
+import { listTemplates } from "./templateRegistry";
+import { generateFiles } from "./templateService";
+
+/**
+ * Generates every template × option combination into a temp directory and
+ * checks that the result compiles: TypeScript projects are type-checked with
+ * the compiler API, Go files are parsed and format-checked by gofmt, Python
+ * files are parsed by the ast module and TOML files by tomllib. Nothing is
+ * downloaded, so npm packages are stubbed as `any` and Go imports are not
+ * resolved.
+ */
+
+const outputRoot = mkdtempSync(path.join(tmpdir(), "temp-gen-"));
+const typeRoots = [path.resolve(__dirname, "../node_modules/@types")];
+
+afterAll(() => rmSync(outputRoot, { recursive: true, force: true }));
+
+const writeProject = (name: string, files: GeneratedFile[]): string => {
+  const dir = path.join(outputRoot, name);
+  files.forEach((file) => {
+    const target = path.join(dir, file.path);
+    mkdirSync(path.dirname(target), { recursive: true });
+    writeFileSync(target, file.content);
+  });
+  return dir;
+};
+
+const JEST_GLOBALS = [
+  "describe",
+  "it",
+  "test",
+  "expect",
+  "jest",
+  "beforeAll",
+  "afterAll",
+  "beforeEach",
+  "afterEach",
+];
+
+const IMPORT =
+  /^\s*import\s+(?:type\s+)?(?:([\w$]+)\s*,?\s*)?(?:\{([^}]*)\}|\*\s+as\s+[\w$]+)?\s*(?:from\s+)?['"]([^'"]+)['"]/gm;
+
+const packageName = (specifier: string) =>
+  specifier
+    .split("/")
+    .slice(0, specifier.startsWith("@") ? 2 : 1)
+    .join("/");
+
+/**
+ * Stubs the package.json dependencies the project imports: every imported
+ * name becomes `any`, usable as a value and as a type. Imports of packages
+ * the project does not depend on still fail to resolve.
+ */
+const writeStubs = (dir: string, files: GeneratedFile[]): string => {
+  const pkg = JSON.parse(
+    files.find((file) => file.path === "package.json")?.content ?? "{}",
+  );
+  const dependencies = Object.keys({
+    ...pkg.dependencies,
+    ...pkg.devDependencies,
+  });
+  const imports = new Map<string, Set<string>>();
+  files
+    .filter((file) => /\.tsx?$/.test(file.path))
+    .forEach((file) => {
+      for (const [, defaultName, named, specifier] of file.content.matchAll(
+        IMPORT,
+      )) {
+        if (!dependencies.includes(packageName(specifier))) continue;
+        const names = imports.get(specifier) ?? new Set<string>();
+        if (defaultName) names.add("default");
+        (named ?? "")
+          .split(",")
+          .map((name) => name.trim().split(/\s+as\s+/)[0])
+          .filter(Boolean)
+          .forEach((name) => names.add(name));
+        imports.set(specifier, names);
+      }
+    });
+
+  const modules = Array.from(imports, ([specifier, names]) => {
+    const exports = Array.from(names, (name) =>
+      name === "default"
+        ? "  export default stub;"
+        : `  export { stub as ${name} };`,
+    );
+    return [
+      `declare module "${specifier}" {`,
+      "  const stub: any;",
+      "  type stub = any;",
+      ...exports,
+      "}",
+    ].join("\n");
+  });
+  const globals = JEST_GLOBALS.map((name) => `declare const ${name}: any;`);
+  const stubs = path.join(dir, "__stubs__.d.ts");
+  writeFileSync(stubs, [...modules, ...globals].join("\n"));
+  return stubs;
+};
+
+const typeCheck = (dir: string, files: GeneratedFile[]): string[] => {
+  const { config } = ts.readConfigFile(
+    path.join(dir, "tsconfig.json"),
+    ts.sys.readFile,
+  );
+  const { options } = ts.parseJsonConfigFileContent(config, ts.sys, dir);
+  const rootNames = [
+    writeStubs(dir, files),
+    ...files
+      .filter((file) => /\.tsx?$/.test(file.path))
+      .map((file) => path.join(dir, file.path)),
+  ];
+  const program = ts.createProgram(rootNames, {
+    ...options,
+    noEmit: true,
+    rootDir: dir,
+    // Stubbed packages are `any`, so callbacks passed to them are untyped
+    noImplicitAny: false,
+    typeRoots,
+    types: ["node"],
+  });
+  return ts.getPreEmitDiagnostics(program).map((diagnostic) =>
+    ts.formatDiagnostic(diagnostic, {
+      getCanonicalFileName: (fileName) => fileName,
+      getCurrentDirectory: () => dir,
+      getNewLine: () => "\n",
+    }),
+  );
+};
+
+const findExecutable = (name: string, extraDirs: string[] = []) =>
+  [...(process.env.PATH ?? "").split(path.delimiter), ...extraDirs]
+    .map((dir) => path.join(dir, name))
+    .find((candidate) => existsSync(candidate));
+
+const gofmt = findExecutable("gofmt", [
+  ...(process.env.GOROOT ? [path.join(process.env.GOROOT, "bin")] : []),
+  "/usr/local/go/bin",
+]);
+const python = findExecutable("python3");
+
+/**
+ * Parse errors, then the files gofmt would reformat, which the generated
+ * golangci-lint config fails on
+ */
+const syntaxCheckGo = (dir: string): string[] => {
+  const result = spawnSync(gofmt!, ["-e", "-l", dir], { encoding: "utf8" });
+  return [
+    ...result.stderr.split("\n").filter(Boolean),
+    ...result.stdout
+      .split("\n")
+      .filter(Boolean)
+      .map((file) => `${path.relative(dir, file)}: not gofmt-formatted`),
+  ];
+};
+
+const PYTHON_CHECK = `
+import ast, sys, tomllib
+for path in sys.argv[1:]:
+    with open(path, "rb") as source:
+        try:
+            if path.endswith(".toml"):
+                tomllib.load(source)
+            else:
+                ast.parse(source.read(), path)
+        except (SyntaxError, tomllib.TOMLDecodeError) as err:
+            print(f"{path}: {err}")
+`;
+
+const syntaxCheckPython = (dir: string, files: GeneratedFile[]): string[] => {
+  const targets = files
+    .filter((file) => /\.(py|toml)$/.test(file.path))
+    .map((file) => path.join(dir, file.path));
+  const result = spawnSync(python!, ["-c", PYTHON_CHECK, ...targets], {
+    encoding: "utf8",
+  });
+  return [result.stdout, result.stderr]
+    .join("\n")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => line.replace(`${dir}${path.sep}`, ""));
+};
+
+/**
+ * Choice and boolean variables that switch between code variants rather than
+ * filling in a value; each of their values is generated with tests and
+ * linter enabled
+ */
+const VARIANT_VARIABLES = ["router", "di", "apiDocs"];
+
+const variantsOf = (template: TemplateDefinition): TemplateVariables[] =>
+  template.variables
+    .filter((variable) => VARIANT_VARIABLES.includes(variable.name))
+    .flatMap((variable) =>
+      (variable.type === "boolean" ? [true, false] : (variable.choices ?? []))
+        .filter((choice) => choice !== variable.default)
+        .map((choice) => ({ [variable.name]: choice })),
+    );
+
+const SAMPLE_RESOURCE = {
+  name: "BlogPost",
+  fields: parseResourceFields(
+    "title, views:integer, rating?:number, published:boolean",
+  ),
+};
+
+/**
+ * Projects with tests and linter enabled also get a resource added, so the
+ * resource scaffolding is compiled against every variant
+ */
+const withResource = (
+  template: TemplateDefinition,
+  options: ProjectOptions,
+  files: GeneratedFile[],
+): GeneratedFile[] =>
+  options.includeTests &&
+  options.includeLinter &&
+  getResourceGenerator(template.id)
+    ? addResource(
+        {
+          projectName: "user-api",
+          template: template.id,
+          variables: options.variables,
+          options,
+          files,
+        },
+        SAMPLE_RESOURCE,
+      ).files
+    : files;
+
+const combinations = listTemplates().flatMap((template) => {
+  const features = listFeatures(template.id).map((feature) => feature.id);
+  const featureSets = features.length > 0 ? [[], features] : [[]];
+  const options = (
+    includeTests: boolean,
+    includeLinter: boolean,
+    variables: TemplateVariables,
+  ) =>
+    featureSets.map((featureSet) => ({
+      template,
+      options: { includeTests, includeLinter, variables, features: featureSet },
+    }));
+  return [
+    ...[true, false].flatMap((includeTests) =>
+      [true, false].flatMap((includeLinter) =>
+        options(includeTests, includeLinter, {}),
+      ),
+    ),
+    ...variantsOf(template).flatMap((variables) =>
+      options(true, true, variables),
+    ),
+  ];
+});
+
+describe.each(combinations)(
+  "$template.slug (tests=$options.includeTests, linter=$options.includeLinter, features=$options.features, variables=$options.variables)",
+  ({ template, options }) => {
+    const files = withResource(
+      template,
+      options,
+      generateFiles("user-api", template.id, options),
+    );
+    const dir = writeProject(
+      [
+        template.slug,
+        options.includeTests ? "tests" : "no-tests",
+        options.includeLinter ? "linter" : "no-linter",
+        ...Object.values(options.variables).map((value) =>
+          String(value).replace(/\W/g, "_"),
+        ),
+        ...options.features,
+      ].join("-"),
+      files,
+    );
+
+    if (template.ecosystem === "npm") {
+      it("type-checks", { timeout: 60_000 }, () => {
+        expect(typeCheck(dir, files)).toEqual([]);
+      });
+    } else if (template.ecosystem === "go") {
+      it.skipIf(!gofmt)("parses as gofmt-formatted Go", () => {
+        expect(syntaxCheckGo(dir)).toEqual([]);
+      });
+    } else {
+      // tomllib needs Python 3.11+
+      it.skipIf(!python)("parses as Python", () => {
+        expect(syntaxCheckPython(dir, files)).toEqual([]);
+      });
+    }
+  },
+);
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  ManifestError,
+  parseFeatureManifest,
+  parseTemplateManifest,
+  renderManifest,
+} from "./manifestLoader";
+
+const manifest = JSON.stringify({
+  variables: [{ name: "port", type: "number", default: 3000 }],
+  packageJson: { name: "{{ projectName }}", version: "1.0.0" },
+  npm: [
+    { dependencies: { express: "^4.19.2" } },
+    { when: "includeTests", scripts: { test: "jest" } },
+  ],
+  files: [
+    {
+      path: "src/index.ts",
+      language: "typescript",
+      content: "listen({{ port }});\n",
+    },
+    {
+      path: "jest.config.js",
+      language: "javascript",
+      content: "module.exports = {};\n",
+      when: "includeTests",
+    },
+  ],
+});
+
+describe("parseTemplateManifest", () => {
+  it("reads a JSON manifest and applies the loader defaults", () => {
+    const parsed = parseTemplateManifest(manifest, "json");
+
+    expect(parsed.variables).toEqual([
+      {
+        name: "port",
+        label: "port",
+        type: "number",
+        default: 3000,
+        required: undefined,
+        pattern: undefined,
+        min: undefined,
+        max: undefined,
+        choices: undefined,
+      },
+    ]);
+    expect(parsed.env).toEqual([]);
+    expect(parsed.go).toEqual([]);
+    expect(parsed.npm[1]).toEqual({
+      when: "includeTests",
+      scripts: { test: "jest" },
+      dependencies: {},
+      devDependencies: {},
+    });
+  });
+
+  it("renders a JSON manifest with package.json first", () => {
+    const files = renderManifest(parseTemplateManifest(manifest, "json"), {
+      projectName: "user-api",
+      port: 8080,
+      includeTests: false,
+    });
+
+    expect(files.map((file) => file.path)).toEqual([
+      "package.json",
+      "src/index.ts",
+    ]);
+    expect(JSON.parse(files[0].content)).toEqual({
+      name: "user-api",
+      version: "1.0.0",
+      dependencies: { express: "^4.19.2" },
+    });
+    expect(files[1].content).toBe("listen(8080);\n");
+  });
+
+  it.each([
+    ["{", /^Invalid JSON manifest: /],
+    ["[]", "Manifest must be an object"],
+    ['{"files": {}}', "files must be a list"],
+    [
+      '{"files": [], "variables": [{"name": "port", "type": "number", "default": "80"}]}',
+      "variables[0].default must be a number",
+    ],
+    [
+      '{"files": [], "variables": [{"name": "module", "format": "uri"}]}',
+      "variables[0].format must be one of go-module-path",
+    ],
+    [
+      '{"files": [{"path": "a", "language": "text", "content": 1}]}',
+      "files[0].content must be a string",
+    ],
+  ])("rejects %s", (source, message) => {
+    expect(() => parseTemplateManifest(source, "json")).toThrow(ManifestError);
+    expect(() => parseTemplateManifest(source, "json")).toThrow(message);
+  });
+});
+
+describe("parseFeatureManifest", () => {
+  it("rejects the template-only fields in a JSON feature manifest", () => {
+    expect(() =>
+      parseFeatureManifest('{"files": [], "goMod": {}}', "json"),
+    ).toThrow(
+      "Features contribute through npm and go, not packageJson or goMod",
+    );
+  });
+});
@@ -0,0 +1,433 @@
+import { parse as parseYaml } from "yaml";
+import {
+  CiCommands,
+  EnvVariable,
+  FeatureManifest,
+  GeneratedFile,
+  GoContribution,
+  GoModuleManifest,
+  ManifestFile,
+  ManifestFormat,
+  ModuleContributions,
+  NpmContribution,
+  TemplateVariableDefinition,
+  TemplateVariableFormat,
+  TemplateVariableType,
+  TemplateManifest,
+  TemplateValue,
+  TemplateVariables,
+} from "../types";
+import {
+  evaluateCondition,
+  findUnresolvedPlaceholders,
+  renderTemplate,
+  renderTemplateValue,
+  TemplateRenderError,
+} from "./templateEngine";
+import { createGoModule, createNpmPackage } from "./moduleBuilder";
+
+const VARIABLE_TYPES: TemplateVariableType[] = [
+  "string",
+  "number",
+  "boolean",
+  "list",
+];
+
+const VARIABLE_FORMATS: TemplateVariableFormat[] = ["go-module-path"];
+
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const expectString = (value: unknown, where: string): string => {
+  if (typeof value !== "string") {
+    throw new ManifestError(`${where} must be a string`);
+  }
+  return value;
+};
+
+const parseCondition = (
+  value: unknown,
+  where: string,
+): string | string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (Array.isArray(value)) {
+    return value.map((condition, i) =>
+      expectString(condition, `${where}[${i}]`),
+    );
+  }
+  return expectString(value, where);
+};
+
+const parseDefault = (
+  value: unknown,
+  type: TemplateVariableType,
+  where: string,
+): TemplateValue => {
+  const valid = type === "list" ? Array.isArray(value) : typeof value === type;
+  if (!valid) throw new ManifestError(`${where} must be a ${type}`);
+  return value as TemplateValue;
+};
+
+const expectOptional = <T>(
+  value: unknown,
+  type: "string" | "number" | "boolean",
+  where: string,
+): T | undefined => {
+  if (value !== undefined && typeof value !== type) {
+    throw new ManifestError(`${where} must be a ${type}`);
+  }
+  return value as T | undefined;
+};
+
+const parseVariable = (
+  value: unknown,
+  i: number,
+): TemplateVariableDefinition => {
+  const where = `variables[${i}]`;
+  if (!isRecord(value)) throw new ManifestError(`${where} must be an object`);
+  const type = (value.type ?? "string") as TemplateVariableType;
+  if (!VARIABLE_TYPES.includes(type)) {
+    throw new ManifestError(
+      `${where}.type must be one of ${VARIABLE_TYPES.join(", ")}`,
+    );
+  }
+  if (
+    value.choices !== undefined &&
+    (!Array.isArray(value.choices) ||
+      value.choices.some((choice) => typeof choice !== "string"))
+  ) {
+    throw new ManifestError(`${where}.choices must be a list of strings`);
+  }
+  if (
+    value.format !== undefined &&
+    !VARIABLE_FORMATS.includes(value.format as TemplateVariableFormat)
+  ) {
+    throw new ManifestError(
+      `${where}.format must be one of ${VARIABLE_FORMATS.join(", ")}`,
+    );
+  }
+  const name = expectString(value.name, `${where}.name`);
+  return {
+    name,
+    label:
+      expectOptional<string>(value.label, "string", `${where}.label`) ?? name,
+    type,
+    default: parseDefault(value.default, type, `${where}.default`),
+    required: expectOptional(value.required, "boolean", `${where}.required`),
+    pattern: expectOptional(value.pattern, "string", `${where}.pattern`),
+    format: value.format as TemplateVariableFormat | undefined,
+    min: expectOptional(value.min, "number", `${where}.min`),
+    max: expectOptional(value.max, "number", `${where}.max`),
+    choices: value.choices as string[] | undefined,
+  };
+};
+
+const parseFile = (value: unknown, i: number): ManifestFile => {
+  const where = `files[${i}]`;
+  if (!isRecord(value)) throw new ManifestError(`${where} must be an object`);
+  if (value.render !== undefined && typeof value.render !== "boolean") {
+    throw new ManifestError(`${where}.render must be a boolean`);
+  }
+  return {
+    path: expectString(value.path, `${where}.path`),
+    language: expectString(value.language, `${where}.language`),
+    content: expectString(value.content, `${where}.content`),
+    when: parseCondition(value.when, `${where}.when`),
+    render: value.render as boolean | undefined,
+  };
+};
+
+const parseStringMap = (
+  value: unknown,
+  where: string,
+): Record<string, string> => {
+  if (value === undefined) return {};
+  if (!isRecord(value)) throw new ManifestError(`${where} must be a map`);
+  Object.entries(value).forEach(([key, version]) =>
+    expectString(version, `${where}.${key}`),
+  );
+  return value as Record<string, string>;
+};
+
+const parseNpmContribution = (value: unknown, i: number): NpmContribution => {
+  const where = `npm[${i}]`;
+  if (!isRecord(value)) throw new ManifestError(`${where} must be an object`);
+  return {
+    when: parseCondition(value.when, `${where}.when`),
+    scripts: parseStringMap(value.scripts, `${where}.scripts`),
+    dependencies: parseStringMap(value.dependencies, `${where}.dependencies`),
+    devDependencies: parseStringMap(
+      value.devDependencies,
+      `${where}.devDependencies`,
+    ),
+  };
+};
+
+const parseGoContribution = (value: unknown, i: number): GoContribution => {
+  const where = `go[${i}]`;
+  if (!isRecord(value)) throw new ManifestError(`${where} must be an object`);
+  return {
+    when: parseCondition(value.when, `${where}.when`),
+    require: parseStringMap(value.require, `${where}.require`),
+  };
+};
+
+const parseGoModule = (value: unknown): GoModuleManifest | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) throw new ManifestError("goMod must be an object");
+  return {
+    module: expectString(value.module, "goMod.module"),
+    go: expectString(value.go, "goMod.go"),
+  };
+};
+
+const readManifest = (
+  source: string,
+  format: ManifestFormat,
+): Record<string, unknown> => {
+  let raw: unknown;
+  try {
+    raw = format === "json" ? JSON.parse(source) : parseYaml(source);
+  } catch (err) {
+    throw new ManifestError(
+      `Invalid ${format.toUpperCase()} manifest: ${(err as Error).message}`,
+    );
+  }
+  if (!isRecord(raw)) throw new ManifestError("Manifest must be an object");
+  return raw;
+};
+
+const parseEnvVariable = (value: unknown, i: number): EnvVariable => {
+  const where = `env[${i}]`;
+  if (!isRecord(value)) throw new ManifestError(`${where} must be an object`);
+  return {
+    name: expectString(value.name, `${where}.name`),
+    description: expectString(value.description, `${where}.description`),
+    default: expectString(value.default, `${where}.default`),
+    required: expectOptional(value.required, "boolean", `${where}.required`),
+    secret: expectOptional(value.secret, "boolean", `${where}.secret`),
+    compose: expectOptional(value.compose, "string", `${where}.compose`),
+  };
+};
+
+const parseCiCommands = (value: unknown): CiCommands | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) throw new ManifestError("ci must be an object");
+  return {
+    runtime: expectString(value.runtime, "ci.runtime"),
+    install: expectString(value.install, "ci.install"),
+    lint: expectOptional(value.lint, "string", "ci.lint"),
+    test: expectOptional(value.test, "string", "ci.test"),
+    build: expectOptional(value.build, "string", "ci.build"),
+  };
+};
+
+const parseManifestBody = (raw: Record<string, unknown>): TemplateManifest => {
+  if (raw.variables !== undefined && !Array.isArray(raw.variables)) {
+    throw new ManifestError("variables must be a list");
+  }
+  if (!Array.isArray(raw.files))
+    throw new ManifestError("files must be a list");
+  ["npm", "go"].forEach((key) => {
+    if (raw[key] !== undefined && !Array.isArray(raw[key])) {
+      throw new ManifestError(`${key} must be a list`);
+    }
+  });
+  if (raw.packageJson !== undefined && !isRecord(raw.packageJson)) {
+    throw new ManifestError("packageJson must be an object");
+  }
+  if (raw.env !== undefined && !Array.isArray(raw.env)) {
+    throw new ManifestError("env must be a list");
+  }
+  if (raw.compose !== undefined && !isRecord(raw.compose)) {
+    throw new ManifestError("compose must be an object");
+  }
+
+  return {
+    variables: ((raw.variables as unknown[] | undefined) ?? []).map(
+      parseVariable,
+    ),
+    files: raw.files.map(parseFile),
+    packageJson: raw.packageJson as Record<string, TemplateValue> | undefined,
+    goMod: parseGoModule(raw.goMod),
+    npm: ((raw.npm as unknown[] | undefined) ?? []).map(parseNpmContribution),
+    go: ((raw.go as unknown[] | undefined) ?? []).map(parseGoContribution),
+    env: ((raw.env as unknown[] | undefined) ?? []).map(parseEnvVariable),
+    compose: raw.compose as Record<string, TemplateValue> | undefined,
+    ci: parseCiCommands(raw.ci),
+  };
+};
+
+/**
+ * Parses and validates a JSON or YAML template manifest
+ */
+export const parseTemplateManifest = (
+  source: string,
+  format: ManifestFormat,
+): TemplateManifest => parseManifestBody(readManifest(source, format));
+
+/**
+ * Parses and validates a JSON or YAML feature manifest: a template manifest
+ * plus the env vars and docker-compose services it contributes
+ */
+export const parseFeatureManifest = (
+  source: string,
+  format: ManifestFormat,
+): FeatureManifest => {
+  const raw = readManifest(source, format);
+  if (raw.services !== undefined && !isRecord(raw.services)) {
+    throw new ManifestError("services must be a map");
+  }
+  if (raw.packageJson !== undefined || raw.goMod !== undefined) {
+    throw new ManifestError(
+      "Features contribute through npm and go, not packageJson or goMod",
+    );
+  }
+  if (raw.compose !== undefined || raw.ci !== undefined) {
+    throw new ManifestError(
+      "Features contribute compose services, not the app's compose service or CI commands",
+    );
+  }
+  return {
+    ...parseManifestBody(raw),
+    services: (raw.services ?? {}) as Record<string, TemplateValue>,
+  };
+};
+
+const isIncluded = (
+  entry: { when?: string | string[] },
+  variables: TemplateVariables,
+): boolean => {
+  if (entry.when === undefined) return true;
+  const conditions = Array.isArray(entry.when) ? entry.when : [entry.when];
+  return conditions.every((condition) =>
+    evaluateCondition(condition, variables),
+  );
+};
+
+const renderPackageJson = (
+  fields: Record<string, TemplateValue>,
+  contributions: NpmContribution[],
+  variables: TemplateVariables,
+): string => {
+  const pkg = createNpmPackage(
+    renderTemplateValue(fields, variables) as Record<string, TemplateValue>,
+  );
+  contributions
+    .filter((contribution) => isIncluded(contribution, variables))
+    .forEach((contribution) =>
+      pkg.contribute({
+        ...contribution,
+        scripts: renderTemplateValue(contribution.scripts, variables) as Record<
+          string,
+          string
+        >,
+      }),
+    );
+  return pkg.build();
+};
+
+const renderGoMod = (
+  goMod: GoModuleManifest,
+  contributions: GoContribution[],
+  variables: TemplateVariables,
+): string => {
+  const mod = createGoModule(renderTemplate(goMod.module, variables), goMod.go);
+  contributions
+    .filter((contribution) => isIncluded(contribution, variables))
+    .forEach((contribution) => mod.contribute(contribution));
+  return mod.build();
+};
+
+const renderModuleFile = (
+  path: string,
+  language: string,
+  render: () => string,
+): GeneratedFile => {
+  try {
+    return { path, language, content: render() };
+  } catch (err) {
+    throw new TemplateRenderError(`${path}: ${(err as Error).message}`);
+  }
+};
+
+/**
+ * Builds package.json and go.mod from the manifest's base fields and every
+ * contribution whose condition holds, including the features' contributions
+ */
+const renderModuleFiles = (
+  manifest: TemplateManifest,
+  variables: TemplateVariables,
+  contributions: ModuleContributions,
+): GeneratedFile[] => {
+  const { packageJson, goMod } = manifest;
+  const files: GeneratedFile[] = [];
+  if (packageJson) {
+    files.push(
+      renderModuleFile("package.json", "json", () =>
+        renderPackageJson(
+          packageJson,
+          [...manifest.npm, ...contributions.npm],
+          variables,
+        ),
+      ),
+    );
+  }
+  if (goMod) {
+    files.push(
+      renderModuleFile("go.mod", "go", () =>
+        renderGoMod(goMod, [...manifest.go, ...contributions.go], variables),
+      ),
+    );
+  }
+  return files;
+};
+
+/**
+ * Turns a manifest into the files generated for a project, with package.json
+ * and go.mod first. Fails if a rendered file still contains an unresolved
+ * placeholder.
+ */
+export const renderManifest = (
+  manifest: TemplateManifest,
+  variables: TemplateVariables,
+  contributions: ModuleContributions = { npm: [], go: [] },
+): GeneratedFile[] => [
+  ...renderModuleFiles(manifest, variables, contributions),
+  ...manifest.files
+    .filter((file) => isIncluded(file, variables))
+    .map((file) => {
+      if (file.render === false) {
+        return {
+          path: file.path,
+          language: file.language,
+          content: file.content,
+        };
+      }
+      try {
+        const generated = {
+          path: renderTemplate(file.path, variables),
+          language: file.language,
+          content: renderTemplate(file.content, variables),
+        };
+        const unresolved = findUnresolvedPlaceholders(generated.content);
+        if (unresolved.length > 0) {
+          throw new TemplateRenderError(
+            `unresolved placeholder ${unresolved.join(", ")}`,
+          );
+        }
+        return generated;
+      } catch (err) {
+        throw new TemplateRenderError(
+          `${file.path}: ${(err as Error).message}`,
+        );
+      }
+    }),
+];
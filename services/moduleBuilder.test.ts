@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { TemplateType } from "../types";
+import { createGoModule, createNpmPackage } from "./moduleBuilder";
+import { generateFiles } from "./templateService";
+
+describe("createNpmPackage", () => {
+  it("appends contributed sections after the base fields", () => {
+    const pkg = createNpmPackage({ name: "user-api", version: "1.0.0" })
+      .addScripts({ build: "tsc" })
+      .addDependencies({ express: "^4.18.2" })
+      .contribute({
+        scripts: { test: "jest" },
+        dependencies: {},
+        devDependencies: { jest: "^29.7.0" },
+      });
+
+    expect(JSON.parse(pkg.build())).toEqual({
+      name: "user-api",
+      version: "1.0.0",
+      scripts: { build: "tsc", test: "jest" },
+      dependencies: { express: "^4.18.2" },
+      devDependencies: { jest: "^29.7.0" },
+    });
+    expect(Object.keys(JSON.parse(pkg.build()))).toEqual([
+      "name",
+      "version",
+      "scripts",
+      "dependencies",
+      "devDependencies",
+    ]);
+  });
+
+  it("leaves out sections nobody contributed to", () => {
+    const pkg = createNpmPackage({ name: "user-api" }).addDependencies({
+      express: "^4.18.2",
+    });
+    expect(JSON.parse(pkg.build())).toEqual({
+      name: "user-api",
+      dependencies: { express: "^4.18.2" },
+    });
+  });
+
+  it("lets later contributions override a version", () => {
+    const pkg = createNpmPackage({ name: "user-api" })
+      .addDependencies({ pg: "^8.0.0" })
+      .addDependencies({ pg: "^8.11.3" });
+    expect(JSON.parse(pkg.build()).dependencies).toEqual({ pg: "^8.11.3" });
+  });
+});
+
+describe("createGoModule", () => {
+  it("renders a require block", () => {
+    const mod = createGoModule("github.com/engineering/user-api", "1.21")
+      .require({ "go.uber.org/zap": "v1.26.0" })
+      .contribute({ require: { "github.com/jackc/pgx/v5": "v5.5.5" } });
+
+    expect(mod.build()).toBe(
+      [
+        "module github.com/engineering/user-api",
+        "",
+        "go 1.21",
+        "",
+        "require (",
+        "\tgo.uber.org/zap v1.26.0",
+        "\tgithub.com/jackc/pgx/v5 v5.5.5",
+        ")",
+      ].join("\n"),
+    );
+  });
+
+  it("omits the require block without dependencies", () => {
+    expect(createGoModule("example.com/tool", "1.22").build()).toBe(
+      "module example.com/tool\n\ngo 1.22",
+    );
+  });
+});
+
+describe("generated package.json", () => {
+  const generate = (includeTests: boolean) => {
+    const files = generateFiles("user-api", TemplateType.TYPESCRIPT_EXPRESS, {
+      includeTests,
+      includeLinter: true,
+      variables: {},
+      features: [],
+    });
+    const pkg = JSON.parse(
+      files.find((file) => file.path === "package.json")!.content,
+    );
+    return { paths: files.map((file) => file.path), pkg };
+  };
+
+  it("contributes jest, supertest and the test scripts with tests", () => {
+    const { paths, pkg } = generate(true);
+
+    expect(pkg.scripts).toMatchObject({
+      test: "jest",
+      "test:watch": "jest --watchAll",
+    });
+    expect(pkg.devDependencies).toHaveProperty("jest");
+    expect(pkg.devDependencies).toHaveProperty("supertest");
+    expect(paths).toContain("jest.config.js");
+  });
+
+  it("leaves them out without tests", () => {
+    const { paths, pkg } = generate(false);
+
+    expect(pkg.scripts).not.toHaveProperty("test");
+    expect(pkg.scripts).not.toHaveProperty("test:watch");
+    expect(
+      Object.keys(pkg.devDependencies).filter((name) =>
+        /jest|supertest/.test(name),
+      ),
+    ).toEqual([]);
+    expect(paths).not.toContain("jest.config.js");
+    expect(paths.filter((path) => /\.test\.ts$/.test(path))).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { GoContribution, NpmContribution, TemplateValue } from "../types";
+
+export interface NpmPackageBuilder {
+  addScripts: (scripts: Record<string, string>) => NpmPackageBuilder;
+  addDependencies: (dependencies: Record<string, string>) => NpmPackageBuilder;
+  addDevDependencies: (
+    dependencies: Record<string, string>,
+  ) => NpmPackageBuilder;
+  contribute: (contribution: NpmContribution) => NpmPackageBuilder;
+  build: () => string;
+}
+
+export interface GoModuleBuilder {
+  require: (modules: Record<string, string>) => GoModuleBuilder;
+  contribute: (contribution: GoContribution) => GoModuleBuilder;
+  build: () => string;
+}
+
+/**
+ * Starts a package.json from its top-level fields (name, version, ...).
+ * Scripts and dependencies are added by whatever the project includes;
+ * sections nobody contributed to are left out.
+ */
+export const createNpmPackage = (
+  fields: Record<string, TemplateValue>,
+): NpmPackageBuilder => {
+  const scripts: Record<string, string> = {};
+  const dependencies: Record<string, string> = {};
+  const devDependencies: Record<string, string> = {};
+
+  const builder: NpmPackageBuilder = {
+    addScripts: (entries) => {
+      Object.assign(scripts, entries);
+      return builder;
+    },
+    addDependencies: (entries) => {
+      Object.assign(dependencies, entries);
+      return builder;
+    },
+    addDevDependencies: (entries) => {
+      Object.assign(devDependencies, entries);
+      return builder;
+    },
+    contribute: (contribution) =>
+      builder
+        .addScripts(contribution.scripts)
+        .addDependencies(contribution.dependencies)
+        .addDevDependencies(contribution.devDependencies),
+    build: () => {
+      const sections = Object.entries({
+        scripts,
+        dependencies,
+        devDependencies,
+      }).filter(([, entries]) => Object.keys(entries).length > 0);
+      return JSON.stringify(
+        { ...fields, ...Object.fromEntries(sections) },
+        null,
+        2,
+      );
+    },
+  };
+  return builder;
+};
+
+/**
+ * Starts a go.mod for a module path and Go version
+ */
+export const createGoModule = (
+  modulePath: string,
+  goVersion: string,
+): GoModuleBuilder => {
+  const requires: Record<string, string> = {};
+
+  const builder: GoModuleBuilder = {
+    require: (modules) => {
+      Object.assign(requires, modules);
+      return builder;
+    },
+    contribute: (contribution) => builder.require(contribution.require),
+    build: () => {
+      const lines = [`module ${modulePath}`, "", `go ${goVersion}`];
+      const modules = Object.entries(requires);
+      if (modules.length > 0) {
+        lines.push(
+          "",
+          "require (",
+          ...modules.map(([module, version]) => `\t${module} ${version}`),
+          ")",
+        );
+      }
+      return lines.join("\n");
+    },
+  };
+  return builder;
+};
@@ -0,0 +1,164 @@
+import { isMap, parseDocument } from "yaml";
+import { ApiDefinition, ApiType, GeneratedFile } from "../types";
+import { FilePatchError } from "./filePatcher";
+
+/** OpenAPI path items and component schemas, as plain objects */
+export interface ApiDocumentAdditions {
+  paths: Record<string, Record<string, unknown>>;
+  schemas: Record<string, unknown>;
+}
+
+const schemaRef = (name: string) => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+/** The OpenAPI schema object for a parsed type */
+export const toSchemaObject = (type: ApiType): Record<string, unknown> => {
+  switch (type.kind) {
+    case "array":
+      return { type: "array", items: toSchemaObject(type.items) };
+    case "ref":
+      return schemaRef(type.name);
+    case "object":
+      return { type: "object", additionalProperties: true };
+    case "unknown":
+      return {};
+    default:
+      return { type: type.kind };
+  }
+};
+
+/**
+ * Describes the operations generated from a spec the way the generated code
+ * serves them: validated inputs, the success response and a 400 for
+ * invalid requests
+ */
+export const describeApi = (api: ApiDefinition): ApiDocumentAdditions => {
+  const paths: ApiDocumentAdditions["paths"] = {};
+  api.operations.forEach((operation) => {
+    const { parameters, body, response } = operation;
+    const validated = parameters.length > 0 || body !== undefined;
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: {
+        operationId: operation.id,
+        ...(operation.summary ? { summary: operation.summary } : {}),
+        ...(parameters.length > 0
+          ? {
+              parameters: parameters.map((parameter) => ({
+                name: parameter.name,
+                in: parameter.in,
+                required: parameter.required,
+                schema: { type: parameter.type },
+              })),
+            }
+          : {}),
+        ...(body
+          ? {
+              requestBody: {
+                required: body.required,
+                content: {
+                  "application/json": { schema: toSchemaObject(body.type) },
+                },
+              },
+            }
+          : {}),
+        responses: {
+          [response.status]: {
+            description: "Success",
+            ...(response.type
+              ? {
+                  content: {
+                    "application/json": {
+                      schema: toSchemaObject(response.type),
+                    },
+                  },
+                }
+              : {}),
+          },
+          ...(validated
+            ? { 400: { description: "The request is invalid" } }
+            : {}),
+        },
+      },
+    };
+  });
+
+  const schemas = Object.fromEntries(
+    api.schemas.map((schema) => {
+      const described =
+        schema.kind === "alias"
+          ? toSchemaObject(schema.type)
+          : {
+              type: "object",
+              ...(schema.properties.some((property) => !property.optional)
+                ? {
+                    required: schema.properties
+                      .filter((property) => !property.optional)
+                      .map((property) => property.name),
+                  }
+                : {}),
+              properties: Object.fromEntries(
+                schema.properties.map((property) => [
+                  property.name,
+                  toSchemaObject(property.type),
+                ]),
+              ),
+            };
+      return [
+        schema.name,
+        schema.description
+          ? { description: schema.description, ...described }
+          : described,
+      ];
+    }),
+  );
+  return { paths, schemas };
+};
+
+/**
+ * Adds paths and schemas to a generated OpenAPI document, keeping the rest
+ * of it as written. Describing an operation or schema twice is an error.
+ */
+export const addToApiDocument = (
+  files: GeneratedFile[],
+  path: string,
+  additions: ApiDocumentAdditions,
+): GeneratedFile[] => {
+  const file = files.find((candidate) => candidate.path === path);
+  if (!file) {
+    throw new FilePatchError(path, "the file is not part of the project");
+  }
+  const document = parseDocument(file.content);
+  if (document.errors.length > 0 || !isMap(document.contents)) {
+    throw new FilePatchError(path, "the file is not a valid OpenAPI document");
+  }
+
+  Object.entries(additions.paths).forEach(([route, operations]) => {
+    Object.entries(operations).forEach(([method, operation]) => {
+      if (document.hasIn(["paths", route, method])) {
+        throw new FilePatchError(
+          path,
+          `${method.toUpperCase()} ${route} is already described`,
+        );
+      }
+      document.setIn(["paths", route, method], document.createNode(operation));
+    });
+  });
+  Object.entries(additions.schemas).forEach(([name, schema]) => {
+    if (document.hasIn(["components", "schemas", name])) {
+      throw new FilePatchError(path, `the ${name} schema is already described`);
+    }
+    document.setIn(
+      ["components", "schemas", name],
+      document.createNode(schema),
+    );
+  });
+
+  const content = document
+    .toString({ flowCollectionPadding: false, lineWidth: 0 })
+    .trimEnd();
+  return files.map((candidate) =>
+    candidate === file ? { ...file, content } : candidate,
+  );
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { OpenApiError, parseOpenApiSpec } from "./openApiParser";
+
+const spec = `
+openapi: 3.0.3
+info: { title: Petstore, version: 1.0.0 }
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      parameters:
+        - { name: limit, in: query, schema: { type: integer } }
+        - { name: X-Request-Id, in: header, schema: { type: string } }
+      responses:
+        "200":
+          description: Pets
+          content:
+            application/json:
+              schema: { type: array, items: { $ref: "#/components/schemas/Pet" } }
+  /pets/{petId}:
+    delete:
+      security: [{ bearerAuth: [] }]
+      responses:
+        "204": { description: Deleted }
+    head:
+      responses:
+        "200": { description: Exists }
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [id]
+      properties:
+        id: { type: integer }
+        tag: { type: string }
+        variant: { oneOf: [{ type: string }, { type: integer }] }
+`;
+
+describe("parseOpenApiSpec", () => {
+  it("reads schemas and operations", () => {
+    const { api } = parseOpenApiSpec(spec);
+
+    expect(api.title).toBe("Petstore");
+    expect(api.schemas).toEqual([
+      {
+        name: "Pet",
+        kind: "object",
+        properties: [
+          { name: "id", type: { kind: "integer" }, optional: false },
+          { name: "tag", type: { kind: "string" }, optional: true },
+          { name: "variant", type: { kind: "unknown" }, optional: true },
+        ],
+      },
+    ]);
+    expect(api.operations).toEqual([
+      {
+        id: "listPets",
+        method: "get",
+        path: "/pets",
+        parameters: [
+          { name: "limit", in: "query", type: "integer", required: false },
+        ],
+        response: {
+          status: 200,
+          type: { kind: "array", items: { kind: "ref", name: "Pet" } },
+        },
+        secured: false,
+      },
+      {
+        id: "deletePetsPetId",
+        method: "delete",
+        path: "/pets/{petId}",
+        parameters: [
+          { name: "petId", in: "path", type: "string", required: true },
+        ],
+        response: { status: 204 },
+        secured: true,
+      },
+    ]);
+  });
+
+  it("warns about the constructs it skips", () => {
+    expect(parseOpenApiSpec(spec).warnings).toEqual([
+      "components.schemas.Pet.properties.variant: oneOf is not supported; typed as unknown",
+      'GET /pets.parameters[1]: header parameter "X-Request-Id" is not supported; ignored',
+      "HEAD /pets/{petId}: HEAD operations are not supported; skipped",
+      'DELETE /pets/{petId}: path parameter "petId" is not declared; read as a string',
+    ]);
+  });
+
+  it("rejects documents that are not OpenAPI 3", () => {
+    expect(() => parseOpenApiSpec("swagger: '2.0'")).toThrow(
+      "Swagger 2.0 specs are not supported",
+    );
+    expect(() => parseOpenApiSpec('{"openapi": "4.0"}')).toThrow(
+      "OpenAPI 4.0 is not supported",
+    );
+    expect(() => parseOpenApiSpec("paths: [")).toThrow(OpenApiError);
+  });
+});
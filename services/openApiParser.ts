@@ -0,0 +1,557 @@
+import { parse as parseYaml } from "yaml";
+import {
+  ApiDefinition,
+  ApiMethod,
+  ApiOperation,
+  ApiParameter,
+  ApiPrimitiveType,
+  ApiSchema,
+  ApiType,
+} from "../types";
+import { convert, RESERVED_WORDS } from "./codeStyle";
+
+export class OpenApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OpenApiError";
+  }
+}
+
+export interface ParsedApi {
+  api: ApiDefinition;
+  /** Constructs that were skipped or simplified, for the user to review */
+  warnings: string[];
+}
+
+const METHODS: ApiMethod[] = ["get", "post", "put", "patch", "delete"];
+const UNSUPPORTED_METHODS = ["head", "options", "trace"];
+const PRIMITIVES: ApiPrimitiveType[] = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+];
+const COMPOSITIONS = ["oneOf", "anyOf", "allOf", "not"];
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const SCHEMA_REF = /^#\/components\/schemas\/([^/]+)$/;
+const PARAMETER_REF = /^#\/components\/parameters\/([^/]+)$/;
+const PATH_SEGMENT = /^(?:[\w.~-]*|\{([A-Za-z_][A-Za-z0-9_]*)\})$/;
+
+// Names the generated code declares next to the schemas
+const GENERATED_NAMES = ["ApiError", "Handler"];
+
+const UNKNOWN: ApiType = { kind: "unknown" };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const oneLine = (value: unknown): string | undefined =>
+  typeof value === "string"
+    ? value.replace(/\s+/g, " ").trim() || undefined
+    : undefined;
+
+const isObjectSchema = (schema: Record<string, unknown>): boolean =>
+  !("$ref" in schema) &&
+  !COMPOSITIONS.some((key) => key in schema) &&
+  isRecord(schema.properties) &&
+  (schema.type === undefined || schema.type === "object");
+
+/**
+ * Path parameter names in a path such as /pets/{petId}, or undefined when a
+ * segment mixes text and parameters or has characters routers treat specially
+ */
+const pathParameterNames = (path: string): string[] | undefined => {
+  const names: string[] = [];
+  for (const segment of path.split("/")) {
+    const match = PATH_SEGMENT.exec(segment);
+    if (!match) return undefined;
+    if (match[1]) names.push(match[1]);
+  }
+  return names;
+};
+
+/**
+ * Reads an OpenAPI 3 document, in YAML or JSON, into the operations and
+ * schemas the templates generate code for. Constructs the generators cannot
+ * express are skipped or loosened to `unknown` with a warning.
+ */
+export const parseOpenApiSpec = (source: string): ParsedApi => {
+  let document: unknown;
+  try {
+    document = parseYaml(source);
+  } catch (err) {
+    throw new OpenApiError(
+      `The spec is not valid YAML or JSON: ${(err as Error).message}`,
+    );
+  }
+  if (!isRecord(document)) {
+    throw new OpenApiError("The spec must be a YAML or JSON object");
+  }
+  if (typeof document.openapi !== "string") {
+    throw new OpenApiError(
+      "swagger" in document
+        ? "Swagger 2.0 specs are not supported; convert the spec to OpenAPI 3"
+        : 'The spec has no "openapi" version field',
+    );
+  }
+  if (!document.openapi.startsWith("3.")) {
+    throw new OpenApiError(
+      `OpenAPI ${document.openapi} is not supported; use OpenAPI 3`,
+    );
+  }
+
+  const warnings: string[] = [];
+  const warn = (where: string, message: string) =>
+    warnings.push(`${where}: ${message}`);
+
+  const info = isRecord(document.info) ? document.info : {};
+  const components = isRecord(document.components) ? document.components : {};
+  const rawSchemas = isRecord(components.schemas) ? components.schemas : {};
+  const rawParameters = isRecord(components.parameters)
+    ? components.parameters
+    : {};
+
+  // Generated names of the component schemas, so references can be
+  // resolved before every schema has been read
+  const schemaNames = new Map<string, string>();
+  const usedNames = new Set<string>();
+  Object.keys(rawSchemas).forEach((raw) => {
+    const where = `components.schemas.${raw}`;
+    const name = convert(raw, "pascal");
+    if (!/^[A-Za-z]/.test(raw) || !name) {
+      warn(where, "schema names must start with a letter; skipped");
+    } else if (GENERATED_NAMES.includes(name)) {
+      warn(where, `"${name}" is used by the generated code; skipped`);
+    } else if (usedNames.has(name)) {
+      warn(where, `another schema is also named "${name}"; skipped`);
+    } else {
+      schemaNames.set(raw, name);
+      usedNames.add(name);
+    }
+  });
+
+  const resolveType = (schema: unknown, where: string): ApiType => {
+    if (!isRecord(schema)) {
+      warn(where, "schema must be an object; typed as unknown");
+      return UNKNOWN;
+    }
+    if (typeof schema.$ref === "string") {
+      const match = SCHEMA_REF.exec(schema.$ref);
+      const name = match ? schemaNames.get(match[1]) : undefined;
+      if (!name) {
+        warn(
+          where,
+          match
+            ? `${schema.$ref} is not a generated schema; typed as unknown`
+            : `only local #/components/schemas references are supported, not ${schema.$ref}; typed as unknown`,
+        );
+        return UNKNOWN;
+      }
+      return { kind: "ref", name };
+    }
+    const composition = COMPOSITIONS.find((key) => key in schema);
+    if (composition) {
+      warn(where, `${composition} is not supported; typed as unknown`);
+      return UNKNOWN;
+    }
+
+    let type = schema.type;
+    if (Array.isArray(type)) {
+      // OpenAPI 3.1 spells nullable types as ["string", "null"]
+      const types = type.filter((entry) => entry !== "null");
+      if (types.length !== 1) {
+        warn(where, "multiple types are not supported; typed as unknown");
+        return UNKNOWN;
+      }
+      type = types[0];
+    }
+    if ("enum" in schema) {
+      warn(where, "enum values are not validated, only their type");
+    }
+    if (PRIMITIVES.includes(type as ApiPrimitiveType)) {
+      return { kind: type as ApiPrimitiveType };
+    }
+    if (type === "array") {
+      return {
+        kind: "array",
+        items:
+          "items" in schema
+            ? resolveType(schema.items, `${where}.items`)
+            : UNKNOWN,
+      };
+    }
+    if (type === "object" || (type === undefined && "properties" in schema)) {
+      if (isRecord(schema.properties)) {
+        warn(
+          where,
+          "nested inline objects are not generated; move the schema to components.schemas. Typed as a free-form object",
+        );
+      }
+      return { kind: "object" };
+    }
+    if (type !== undefined) {
+      warn(
+        where,
+        `type ${JSON.stringify(type)} is not supported; typed as unknown`,
+      );
+    }
+    return UNKNOWN;
+  };
+
+  const readSchema = (
+    name: string,
+    schema: unknown,
+    where: string,
+  ): ApiSchema => {
+    const description = isRecord(schema)
+      ? oneLine(schema.description)
+      : undefined;
+    if (!isRecord(schema) || !isObjectSchema(schema)) {
+      return {
+        name,
+        description,
+        kind: "alias",
+        type: resolveType(schema, where),
+      };
+    }
+    const required = Array.isArray(schema.required) ? schema.required : [];
+    if (isRecord(schema.additionalProperties)) {
+      warn(where, "additionalProperties schemas are not validated");
+    }
+    const properties = Object.entries(
+      schema.properties as Record<string, unknown>,
+    ).flatMap(([property, value]) => {
+      if (!IDENTIFIER.test(property)) {
+        warn(
+          `${where}.properties.${property}`,
+          "property names must be identifiers; skipped",
+        );
+        return [];
+      }
+      return [
+        {
+          name: property,
+          type: resolveType(value, `${where}.properties.${property}`),
+          optional: !required.includes(property),
+        },
+      ];
+    });
+    return { name, description, kind: "object", properties };
+  };
+
+  const schemas = Array.from(schemaNames, ([raw, name]) =>
+    readSchema(name, rawSchemas[raw], `components.schemas.${raw}`),
+  );
+
+  /** Resolves an inline object body into a schema of its own */
+  const bodyType = (schema: unknown, name: string, where: string): ApiType => {
+    if (!isRecord(schema) || !isObjectSchema(schema)) {
+      return resolveType(schema, where);
+    }
+    if (usedNames.has(name)) {
+      warn(
+        where,
+        `a schema is already named "${name}"; typed as a free-form object`,
+      );
+      return { kind: "object" };
+    }
+    usedNames.add(name);
+    schemas.push(readSchema(name, schema, where));
+    return { kind: "ref", name };
+  };
+
+  /** The schema of a content map's JSON media type */
+  const jsonContent = (
+    content: unknown,
+    where: string,
+  ): { schema: unknown } | undefined => {
+    if (!isRecord(content)) return undefined;
+    const mediaType = Object.keys(content).find((type) =>
+      /^application\/(?:[\w.-]+\+)?json\b/.test(type),
+    );
+    if (!mediaType) {
+      const types = Object.keys(content);
+      if (types.length > 0) {
+        warn(
+          where,
+          `${types.join(", ")} content is not supported, only JSON; ignored`,
+        );
+      }
+      return undefined;
+    }
+    const media = content[mediaType];
+    return { schema: isRecord(media) ? media.schema : undefined };
+  };
+
+  const readParameter = (
+    value: unknown,
+    where: string,
+  ): ApiParameter | undefined => {
+    let parameter = value;
+    if (isRecord(parameter) && typeof parameter.$ref === "string") {
+      const match = PARAMETER_REF.exec(parameter.$ref);
+      parameter = match ? rawParameters[match[1]] : undefined;
+      if (!isRecord(parameter)) {
+        warn(where, "cannot resolve the parameter reference; ignored");
+        return undefined;
+      }
+    }
+    if (
+      !isRecord(parameter) ||
+      typeof parameter.name !== "string" ||
+      typeof parameter.in !== "string"
+    ) {
+      warn(where, "parameters need a name and an in field; ignored");
+      return undefined;
+    }
+    const { name } = parameter;
+    if (parameter.in !== "path" && parameter.in !== "query") {
+      warn(
+        where,
+        `${parameter.in} parameter "${name}" is not supported; ignored`,
+      );
+      return undefined;
+    }
+    if (!IDENTIFIER.test(name)) {
+      warn(where, `parameter name "${name}" must be an identifier; ignored`);
+      return undefined;
+    }
+    let type: ApiPrimitiveType = "string";
+    if ("schema" in parameter) {
+      const resolved = resolveType(parameter.schema, `${where}.schema`);
+      if (PRIMITIVES.includes(resolved.kind as ApiPrimitiveType)) {
+        type = resolved.kind as ApiPrimitiveType;
+      } else {
+        warn(
+          where,
+          `parameter "${name}" is not a string, number, integer or boolean; read as a string`,
+        );
+      }
+    }
+    return {
+      name,
+      in: parameter.in as ApiParameter["in"],
+      type,
+      required: parameter.in === "path" || parameter.required === true,
+    };
+  };
+
+  const readParameters = (value: unknown, where: string) =>
+    (Array.isArray(value) ? value : []).flatMap((parameter, i) => {
+      const parsed = readParameter(parameter, `${where}.parameters[${i}]`);
+      return parsed ? [parsed] : [];
+    });
+
+  const operations: ApiOperation[] = [];
+  const operationIds = new Set<string>();
+  const rootSecurity = Array.isArray(document.security)
+    ? document.security.length > 0
+    : false;
+
+  const readOperation = (
+    path: string,
+    method: ApiMethod,
+    operation: Record<string, unknown>,
+    shared: ApiParameter[],
+    pathNames: string[],
+  ): ApiOperation | undefined => {
+    const where = `${method.toUpperCase()} ${path}`;
+
+    const source = oneLine(operation.operationId);
+    let id = convert(
+      source ?? `${method} ${path.replace(/[{}]/g, "")}`,
+      "camel",
+    );
+    if (!/^[a-z]/.test(id)) id = `op${convert(id, "pascal")}`;
+    if (RESERVED_WORDS.includes(id)) {
+      warn(
+        where,
+        `operationId "${id}" is a reserved word; named ${id}Operation`,
+      );
+      id = `${id}Operation`;
+    }
+    if (operationIds.has(id)) {
+      warn(where, `operationId "${id}" is used by another operation; skipped`);
+      return undefined;
+    }
+
+    // Operation parameters override path-level ones with the same name
+    const own = readParameters(operation.parameters, where);
+    const parameters = [
+      ...shared.filter(
+        (parameter) =>
+          !own.some(
+            ({ name, in: location }) =>
+              name === parameter.name && location === parameter.in,
+          ),
+      ),
+      ...own,
+    ].filter((parameter) => {
+      if (parameter.in === "path" && !pathNames.includes(parameter.name)) {
+        warn(
+          where,
+          `path parameter "${parameter.name}" is not in the path; ignored`,
+        );
+        return false;
+      }
+      return true;
+    });
+    pathNames
+      .filter(
+        (name) =>
+          !parameters.some(
+            (parameter) => parameter.in === "path" && parameter.name === name,
+          ),
+      )
+      .forEach((name) => {
+        warn(
+          where,
+          `path parameter "${name}" is not declared; read as a string`,
+        );
+        parameters.push({ name, in: "path", type: "string", required: true });
+      });
+    const fieldNames = new Set<string>();
+    const unique = parameters.filter((parameter) => {
+      const field = convert(parameter.name, "pascal");
+      if (fieldNames.has(field) || field === "Body") {
+        warn(
+          where,
+          `parameter "${parameter.name}" clashes with another input; ignored`,
+        );
+        return false;
+      }
+      fieldNames.add(field);
+      return true;
+    });
+
+    let body: ApiOperation["body"];
+    const requestBody = operation.requestBody;
+    if (isRecord(requestBody)) {
+      if ("$ref" in requestBody) {
+        warn(
+          where,
+          "requestBody references are not supported; the body is ignored",
+        );
+      } else {
+        const json = jsonContent(requestBody.content, `${where} requestBody`);
+        if (json) {
+          body = {
+            type: bodyType(
+              json.schema,
+              `${convert(id, "pascal")}Request`,
+              `${where} requestBody`,
+            ),
+            required: requestBody.required === true,
+          };
+        }
+      }
+    }
+
+    const responses = isRecord(operation.responses) ? operation.responses : {};
+    const success = Object.keys(responses)
+      .filter((status) => /^2\d\d$/.test(status))
+      .sort()[0];
+    let responseType: ApiType | undefined;
+    const response = success ? responses[success] : undefined;
+    if (isRecord(response)) {
+      if ("$ref" in response) {
+        warn(where, `response ${success} is a reference; its body is untyped`);
+      } else {
+        const json = jsonContent(
+          response.content,
+          `${where} response ${success}`,
+        );
+        if (json) {
+          responseType = bodyType(
+            json.schema,
+            `${convert(id, "pascal")}Response`,
+            `${where} response ${success}`,
+          );
+        }
+      }
+    }
+
+    if ("callbacks" in operation) {
+      warn(where, "callbacks are not supported; ignored");
+    }
+
+    operationIds.add(id);
+    return {
+      id,
+      method,
+      path,
+      summary: oneLine(operation.summary),
+      parameters: unique,
+      body,
+      secured: Array.isArray(operation.security)
+        ? operation.security.length > 0
+        : rootSecurity,
+      response: {
+        status: success ? Number(success) : 200,
+        type: responseType,
+      },
+    };
+  };
+
+  const paths = isRecord(document.paths) ? document.paths : {};
+  Object.entries(paths).forEach(([path, item]) => {
+    const where = `paths.${path}`;
+    if (!isRecord(item)) return;
+    if ("$ref" in item) {
+      warn(where, "path item references are not supported; skipped");
+      return;
+    }
+    const pathNames = path.startsWith("/")
+      ? pathParameterNames(path)
+      : undefined;
+    if (!pathNames) {
+      warn(
+        where,
+        "paths must start with /, use letters, digits and ._~- and give parameters whole segments, e.g. /files/{name}; skipped",
+      );
+      return;
+    }
+    UNSUPPORTED_METHODS.filter((method) => method in item).forEach((method) =>
+      warn(
+        `${method.toUpperCase()} ${path}`,
+        `${method.toUpperCase()} operations are not supported; skipped`,
+      ),
+    );
+    const shared = readParameters(item.parameters, where);
+    METHODS.forEach((method) => {
+      const operation = item[method];
+      if (!isRecord(operation)) return;
+      const parsed = readOperation(path, method, operation, shared, pathNames);
+      if (parsed) operations.push(parsed);
+    });
+  });
+
+  const servers = Array.isArray(document.servers) ? document.servers : [];
+  const basePath = servers
+    .map((server) =>
+      isRecord(server) && typeof server.url === "string"
+        ? /^(?:[a-z][a-z0-9+.-]*:\/\/[^/]*)?(\/[^?#]*)?/i.exec(server.url)?.[1]
+        : undefined,
+    )
+    .find((path) => path && path !== "/");
+  if (basePath) {
+    warn(
+      "servers",
+      `paths are served from the application root, not under ${basePath}`,
+    );
+  }
+  if (isRecord(document.webhooks)) {
+    warn("webhooks", "webhooks are not supported; ignored");
+  }
+
+  return {
+    api: {
+      title: oneLine(info.title) ?? "API",
+      version: oneLine(info.version) ?? "1.0.0",
+      schemas,
+      operations,
+    },
+    warnings,
+  };
+};
@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+import { TemplateType } from "../types";
+import { checkConsistency } from "./consistencyChecker";
+import { OpenApiError } from "./openApiParser";
+import { applyOpenApiSpec, getOpenApiGenerator } from "./openApiScaffolder";
+import { content, project } from "./testUtils";
+
+const spec = `
+openapi: 3.0.3
+info: { title: Petstore, version: 1.0.0 }
+paths:
+  /health:
+    get:
+      responses:
+        "200": { description: OK }
+  /pets:
+    post:
+      operationId: createPet
+      security: [{ bearerAuth: [] }]
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema: { $ref: "#/components/schemas/NewPet" }
+      responses:
+        "201":
+          description: Created
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Pet" }
+  /pets/{petId}:
+    get:
+      operationId: showPetById
+      parameters:
+        - { name: petId, in: path, required: true, schema: { type: integer } }
+      responses:
+        "200":
+          description: The pet
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Pet" }
+components:
+  schemas:
+    NewPet:
+      type: object
+      required: [name]
+      properties:
+        name: { type: string }
+        tag: { type: string }
+    Pet:
+      type: object
+      required: [id, name]
+      properties:
+        id: { type: integer }
+        name: { type: string }
+`;
+
+describe("applyOpenApiSpec", () => {
+  it("generates Express handlers, types and validation", () => {
+    const { project: result, warnings } = applyOpenApiSpec(
+      project(TemplateType.TYPESCRIPT_EXPRESS),
+      spec,
+    );
+
+    expect(result.files.slice(-5).map((file) => file.path)).toEqual([
+      "src/api/types.ts",
+      "src/api/validation.ts",
+      "src/api/handlers.ts",
+      "src/api/routes.ts",
+      "src/tests/api.test.ts",
+    ]);
+    expect(content(result, "src/api/types.ts")).toContain(
+      "export interface NewPet {\n  name: string;\n  tag?: string;\n}",
+    );
+    expect(content(result, "src/api/routes.ts")).toContain(
+      "router.get(\n    '/pets/:petId',",
+    );
+    expect(content(result, "src/api/handlers.ts")).toContain(
+      "export const createPet: RequestHandler<",
+    );
+    expect(content(result, "src/app.ts")).toContain(
+      "app.use(createApiRouter());",
+    );
+    expect(content(result, "openapi.yaml")).toContain(
+      "  /pets/{petId}:\n    get:\n      operationId: showPetById",
+    );
+    expect(warnings).toEqual([
+      "GET /health: the template already serves this path; skipped",
+      "security: 1 operation requires authentication, which the generated routes do not enforce",
+    ]);
+    expect(checkConsistency(result.files)).toEqual([]);
+  });
+
+  it.each(["net/http", "chi", "gin", "echo"])(
+    "mounts the Go handler on the %s router",
+    (router) => {
+      const { project: result } = applyOpenApiSpec(
+        project(TemplateType.GO_CLEAN_ARCH, { router }),
+        spec,
+      );
+      const routerFile = content(result, "cmd/api/router.go");
+
+      expect(routerFile).toContain(
+        '\t"github.com/engineering/user-api/internal/api"\n',
+      );
+      expect(routerFile).toContain("// OpenAPI operations");
+      expect(content(result, "internal/api/routes.go")).toContain(
+        router === "gin" || router === "echo"
+          ? '{http.MethodGet, "/pets/:petId", h.serveShowPetByID},'
+          : '{http.MethodGet, "/pets/{petId}", h.serveShowPetByID},',
+      );
+      expect(content(result, "docs/openapi.yaml")).toMatch(
+        /^ {4}NewPet:\n {6}type: object\n {6}required:\n {8}- name$/m,
+      );
+      expect(content(result, "internal/api/types.go")).toContain(
+        "type ShowPetByIDParams struct {\n\tPetID int64\n}",
+      );
+      expect(checkConsistency(result.files)).toEqual([]);
+    },
+  );
+
+  it("skips paths the net/http user handler serves", () => {
+    const posts = `
+openapi: 3.0.3
+info: { title: Posts, version: 1.0.0 }
+paths:
+  /api/v1/users/{userId}/posts:
+    get:
+      operationId: listUserPosts
+      parameters:
+        - { name: userId, in: path, required: true, schema: { type: string } }
+      responses:
+        "200": { description: OK }
+  /posts:
+    get:
+      operationId: listPosts
+      responses:
+        "200": { description: OK }
+`;
+    const netHttp = applyOpenApiSpec(
+      project(TemplateType.GO_CLEAN_ARCH, { router: "net/http" }),
+      posts,
+    );
+    const chi = applyOpenApiSpec(
+      project(TemplateType.GO_CLEAN_ARCH, { router: "chi" }),
+      posts,
+    );
+
+    expect(netHttp.warnings).toEqual([
+      "GET /api/v1/users/{userId}/posts: the template already serves this path; skipped",
+    ]);
+    expect(content(netHttp.project, "internal/api/routes.go")).not.toContain(
+      "/api/v1/users/",
+    );
+    expect(chi.warnings).toEqual([]);
+    expect(content(chi.project, "internal/api/routes.go")).toContain(
+      '"/api/v1/users/{userId}/posts"',
+    );
+  });
+
+  it.each([TemplateType.TYPESCRIPT_EXPRESS, TemplateType.GO_CLEAN_ARCH])(
+    "skips the Swagger UI paths of %s when apiDocs is on",
+    (template) => {
+      const docs = `
+openapi: 3.0.3
+info: { title: Docs, version: 1.0.0 }
+paths:
+  /docs:
+    get:
+      responses:
+        "200": { description: OK }
+  /docs/openapi.yaml:
+    get:
+      responses:
+        "200": { description: OK }
+  /posts:
+    get:
+      operationId: listPosts
+      responses:
+        "200": { description: OK }
+`;
+
+      expect(
+        applyOpenApiSpec(project(template, { apiDocs: true }), docs).warnings,
+      ).toEqual([
+        "GET /docs: the template already serves this path; skipped",
+        "GET /docs/openapi.yaml: the template already serves this path; skipped",
+      ]);
+      expect(
+        applyOpenApiSpec(project(template, { apiDocs: false }), docs).warnings,
+      ).toEqual([]);
+    },
+  );
+
+  it("rejects templates without a generator and specs with nothing to generate", () => {
+    expect(getOpenApiGenerator("Python/FastAPI")).toBeUndefined();
+    expect(() => applyOpenApiSpec(project("Python/FastAPI"), spec)).toThrow(
+      "projects do not support OpenAPI generation",
+    );
+    expect(() =>
+      applyOpenApiSpec(
+        project(TemplateType.TYPESCRIPT_EXPRESS),
+        "openapi: 3.0.0\npaths:\n  /health:\n    get: {}",
+      ),
+    ).toThrow(OpenApiError);
+  });
+});
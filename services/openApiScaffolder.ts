@@ -0,0 +1,105 @@
+import { OpenApiGenerator, ProjectStructure } from "../types";
+import { builtInOpenApiGenerators } from "../openapi";
+import { renderManifest } from "./manifestLoader";
+import { addToApiDocument, describeApi } from "./openApiDocument";
+import { OpenApiError, parseOpenApiSpec } from "./openApiParser";
+import { getTemplate } from "./templateRegistry";
+import { resolveProjectVariables } from "./templateService";
+
+export interface OpenApiResult {
+  project: ProjectStructure;
+  warnings: string[];
+}
+
+/** Compares paths regardless of their parameter names */
+const pathShape = (path: string) => path.replace(/\{[^}]*\}/g, "{}");
+
+const isReserved = (reserved: string, path: string) =>
+  reserved.endsWith("/")
+    ? path === reserved.slice(0, -1) || path.startsWith(reserved)
+    : path === reserved;
+
+/**
+ * Finds the OpenAPI generator for a template, if it has one
+ */
+export const getOpenApiGenerator = (
+  template: string,
+): OpenApiGenerator | undefined => {
+  const { id } = getTemplate(template);
+  return builtInOpenApiGenerators.find((generator) =>
+    generator.templates.includes(id),
+  );
+};
+
+/**
+ * Generates route handlers, request and response types and validation for
+ * every operation in an OpenAPI 3 spec, mounted next to the project's
+ * existing routes. Warnings list what the spec uses that was not generated.
+ */
+export const applyOpenApiSpec = (
+  project: ProjectStructure,
+  source: string,
+): OpenApiResult => {
+  const generator = getOpenApiGenerator(project.template);
+  if (!generator) {
+    throw new OpenApiError(
+      `${getTemplate(project.template).name} projects do not support OpenAPI generation`,
+    );
+  }
+  const { api, warnings } = parseOpenApiSpec(source);
+  const projectVariables = resolveProjectVariables(
+    project.projectName,
+    project.template,
+    project.options,
+  );
+
+  const reserved = generator.reservedPaths(projectVariables).map(pathShape);
+  const operations = api.operations.filter((operation) => {
+    const shape = pathShape(operation.path);
+    if (!reserved.some((path) => isReserved(path, shape))) return true;
+    warnings.push(
+      `${operation.method.toUpperCase()} ${operation.path}: the template already serves this path; skipped`,
+    );
+    return false;
+  });
+  const secured = operations.filter((operation) => operation.secured).length;
+  if (secured > 0) {
+    warnings.push(
+      `security: ${secured} operation${secured === 1 ? " requires" : "s require"} authentication, which the generated routes do not enforce`,
+    );
+  }
+  if (operations.length === 0) {
+    throw new OpenApiError("The spec has no operations that can be generated");
+  }
+
+  const generated = { ...api, operations };
+  const variables = {
+    ...projectVariables,
+    api: generator.variables(generated, projectVariables),
+  };
+
+  const files = renderManifest(generator.manifest, variables);
+  const existing = files.filter((file) =>
+    project.files.some(({ path }) => path === file.path),
+  );
+  if (existing.length > 0) {
+    throw new OpenApiError(
+      `The OpenAPI code would overwrite ${existing.map((file) => file.path).join(", ")}`,
+    );
+  }
+
+  const registered = [
+    ...generator.register(project.files, variables),
+    ...files,
+  ];
+  const { apiDocument } = getTemplate(project.template);
+  return {
+    project: {
+      ...project,
+      files: apiDocument
+        ? addToApiDocument(registered, apiDocument, describeApi(generated))
+        : registered,
+    },
+    warnings,
+  };
+};
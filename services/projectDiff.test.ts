@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { GeneratedFile } from "../types";
+import { diffLines, diffProjects, toHunks, toSplitRows } from "./projectDiff";
+
+const file = (path: string, content: string): GeneratedFile => ({
+  path,
+  content,
+  language: "text",
+});
+
+const numbered = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe("diffProjects", () => {
+  it("lists added, modified and removed files, leaving out unchanged ones", () => {
+    const previous = [
+      file("README.md", "# api"),
+      file(".eslintrc.json", "{}"),
+      file("src/index.ts", "listen()"),
+    ];
+    const current = [
+      file("README.md", "# api\n\nLinting"),
+      file("src/index.ts", "listen()"),
+      file("jest.config.js", "module.exports = {};"),
+    ];
+
+    expect(
+      diffProjects(previous, current).map(({ path, change }) => [path, change]),
+    ).toEqual([
+      ["README.md", "modified"],
+      ["jest.config.js", "added"],
+      [".eslintrc.json", "removed"],
+    ]);
+  });
+});
+
+describe("diffLines", () => {
+  it("keeps common lines and numbers each side", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc\nd")).toEqual([
+      { type: "context", text: "a", oldLine: 1, newLine: 1 },
+      { type: "removed", text: "b", oldLine: 2 },
+      { type: "added", text: "x", newLine: 2 },
+      { type: "context", text: "c", oldLine: 3, newLine: 3 },
+      { type: "added", text: "d", newLine: 4 },
+    ]);
+  });
+
+  it("treats empty content as no lines", () => {
+    expect(diffLines("", "a\nb").map((line) => line.type)).toEqual([
+      "added",
+      "added",
+    ]);
+    expect(diffLines("same", "same")).toEqual([
+      { type: "context", text: "same", oldLine: 1, newLine: 1 },
+    ]);
+  });
+});
+
+describe("toHunks", () => {
+  it("keeps three lines of context and merges nearby changes", () => {
+    const before = numbered(30);
+    const after = [...before];
+    after[4] = "changed 5";
+    after[9] = "changed 10";
+    after.splice(25, 1);
+
+    const hunks = toHunks(diffLines(before.join("\n"), after.join("\n")));
+
+    expect(
+      hunks.map(({ oldStart, oldLines, newStart, newLines }) => [
+        oldStart,
+        oldLines,
+        newStart,
+        newLines,
+      ]),
+    ).toEqual([
+      [2, 12, 2, 12],
+      [23, 7, 23, 6],
+    ]);
+    expect(hunks[1].lines[3]).toEqual({
+      type: "removed",
+      text: "line 26",
+      oldLine: 26,
+    });
+  });
+});
+
+describe("toSplitRows", () => {
+  it("pairs removed lines with the added lines that replace them", () => {
+    const rows = toSplitRows(diffLines("a\nb\nc\nd", "a\nx\ny\nz\nd"));
+
+    expect(
+      rows.map(({ left, right }) => [left?.text ?? null, right?.text ?? null]),
+    ).toEqual([
+      ["a", "a"],
+      ["b", "x"],
+      ["c", "y"],
+      [null, "z"],
+      ["d", "d"],
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import { GeneratedFile } from "../types";
+
+export type FileChange = "added" | "removed" | "modified";
+
+export interface FileDiff {
+  path: string;
+  change: FileChange;
+  before?: GeneratedFile;
+  after?: GeneratedFile;
+}
+
+export interface DiffLine {
+  type: "context" | "added" | "removed";
+  text: string;
+  /** 1-based, absent on added lines */
+  oldLine?: number;
+  /** 1-based, absent on removed lines */
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/** A row of the side-by-side view; a missing side is blank */
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Lists the files added, removed or changed between two generations: those
+ * of `current` in order, then the removed ones
+ */
+export const diffProjects = (
+  previous: GeneratedFile[],
+  current: GeneratedFile[],
+): FileDiff[] => {
+  const before = new Map(previous.map((file) => [file.path, file]));
+  const after = new Set(current.map((file) => file.path));
+
+  const diffs: FileDiff[] = current.flatMap((file): FileDiff[] => {
+    const old = before.get(file.path);
+    if (!old) return [{ path: file.path, change: "added", after: file }];
+    if (old.content === file.content) return [];
+    return [{ path: file.path, change: "modified", before: old, after: file }];
+  });
+  previous
+    .filter((file) => !after.has(file.path))
+    .forEach((file) =>
+      diffs.push({ path: file.path, change: "removed", before: file }),
+    );
+  return diffs;
+};
+
+const splitLines = (content: string) =>
+  content === "" ? [] : content.split("\n");
+
+/**
+ * Shortest edit script between two line lists (Myers' O(ND) algorithm), as
+ * the kept, removed and added lines in order
+ */
+const editScript = (a: string[], b: string[]): DiffLine["type"][] => {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= n + m; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m, offset);
+    }
+  }
+  return [];
+};
+
+const backtrack = (
+  trace: Int32Array[],
+  n: number,
+  m: number,
+  offset: number,
+): DiffLine["type"][] => {
+  const script: DiffLine["type"][] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      script.push("context");
+      x--;
+      y--;
+    }
+    if (d > 0) script.push(x === prevX ? "added" : "removed");
+    x = prevX;
+    y = prevY;
+  }
+  return script.reverse();
+};
+
+/**
+ * Line diff of two file contents, numbering every line on the side(s) it
+ * appears on
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  let oldLine = 0;
+  let newLine = 0;
+
+  return editScript(a, b).map((type) => {
+    if (type === "added") {
+      return { type, text: b[newLine++], newLine };
+    }
+    if (type === "removed") {
+      return { type, text: a[oldLine++], oldLine };
+    }
+    newLine++;
+    return { type, text: a[oldLine++], oldLine, newLine };
+  });
+};
+
+/**
+ * Groups changed lines into hunks with up to `context` unchanged lines around
+ * them, merging hunks whose context would overlap
+ */
+export const toHunks = (lines: DiffLine[], context = 3): DiffHunk[] => {
+  const changed = lines
+    .map((line, i) => (line.type === "context" ? -1 : i))
+    .filter((i) => i >= 0);
+  const ranges: [number, number][] = [];
+  changed.forEach((i) => {
+    const last = ranges[ranges.length - 1];
+    if (last && i - context <= last[1] + 1) {
+      last[1] = Math.min(i + context, lines.length - 1);
+    } else {
+      ranges.push([
+        Math.max(i - context, 0),
+        Math.min(i + context, lines.length - 1),
+      ]);
+    }
+  });
+
+  return ranges.map(([start, end]) => {
+    const hunk = lines.slice(start, end + 1);
+    const oldLines = hunk.filter((line) => line.type !== "added").length;
+    const newLines = hunk.filter((line) => line.type !== "removed").length;
+    // Like unified diff headers, an empty side starts at the line before
+    const first = lines.slice(0, start);
+    const oldBefore = first.filter((line) => line.type !== "added").length;
+    const newBefore = first.filter((line) => line.type !== "removed").length;
+    return {
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: hunk,
+    };
+  });
+};
+
+/**
+ * Lays diff lines out side by side, pairing each run of removed lines with
+ * the added lines that follow it
+ */
+export const toSplitRows = (lines: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach((line) => {
+    if (line.type === "removed") {
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+  return rows;
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeProjectName,
+  validateGoModulePath,
+  validateProjectName,
+} from "./projectNameValidation";
+
+describe("validateProjectName (npm)", () => {
+  it.each(["user-api", "billing.service", "svc_2", "a~b"])(
+    "accepts %s",
+    (name) => {
+      expect(validateProjectName(name, "npm")).toEqual({
+        valid: true,
+        errors: [],
+        suggestion: null,
+      });
+    },
+  );
+
+  it.each([
+    ["", "is required"],
+    ["My-Service", "must be lowercase"],
+    ["my service!", "may only contain"],
+    [".hidden", "must not start with a dot or underscore"],
+    ["_private", "must not start with a dot or underscore"],
+    [" padded ", "must not have leading or trailing spaces"],
+    ["http", "reserved npm package name"],
+    ["node_modules", "reserved npm package name"],
+    ["a".repeat(215), "at most 214 characters"],
+  ])("rejects %j", (name, error) => {
+    const result = validateProjectName(name, "npm");
+    expect(result.valid).toBe(false);
+    expect(result.errors.join("\n")).toContain(error);
+  });
+
+  it("suggests a normalized name", () => {
+    expect(validateProjectName("My Service!", "npm").suggestion).toBe(
+      "my-service",
+    );
+    expect(validateProjectName("http", "npm").suggestion).toBe("http-service");
+  });
+});
+
+describe("validateProjectName (go)", () => {
+  it.each(["user-api", "UserAPI", "svc.v2", "a_b~c"])("accepts %s", (name) => {
+    expect(validateProjectName(name, "go").valid).toBe(true);
+  });
+
+  it.each([
+    ["", "is required"],
+    ["my service", "may only contain"],
+    ["svc/api", "may only contain"],
+    [".svc", "must not start or end with a dot"],
+    ["svc.", "must not start or end with a dot"],
+    ["svc~1", "tilde followed by digits"],
+    ["con", "reserved file name on Windows"],
+    ["LPT1.api", "reserved file name on Windows"],
+  ])("rejects %j", (name, error) => {
+    const result = validateProjectName(name, "go");
+    expect(result.valid).toBe(false);
+    expect(result.errors.join("\n")).toContain(error);
+  });
+
+  it("suggests a normalized name", () => {
+    expect(validateProjectName("My Service!", "go").suggestion).toBe(
+      "my-service",
+    );
+    expect(validateProjectName("con", "go").suggestion).toBe("con-service");
+  });
+});
+
+describe("validateProjectName (pypi)", () => {
+  it.each(["user-api", "billing.service", "svc_2", "a"])(
+    "accepts %s",
+    (name) => {
+      expect(validateProjectName(name, "pypi").valid).toBe(true);
+    },
+  );
+
+  it.each([
+    ["", "is required"],
+    ["User-API", "must be lowercase"],
+    ["my service", "may only contain"],
+    ["a~b", "may only contain"],
+    ["-svc", "must start and end with a letter or digit"],
+    ["svc_", "must start and end with a letter or digit"],
+    ["user--api", "consecutive separators"],
+  ])("rejects %j", (name, error) => {
+    const result = validateProjectName(name, "pypi");
+    expect(result.valid).toBe(false);
+    expect(result.errors.join("\n")).toContain(error);
+  });
+
+  it("suggests a normalized name", () => {
+    expect(validateProjectName("User__API", "pypi").suggestion).toBe(
+      "user-api",
+    );
+  });
+});
+
+describe("normalizeProjectName", () => {
+  it.each([
+    ["UserAPI", "user-api"],
+    ["  Billing  Service ", "billing-service"],
+    ["--_weird__name_--", "weird__name"],
+    ["Orders v2.0", "orders-v2.0"],
+  ])("normalizes %j to %j", (name, expected) => {
+    expect(normalizeProjectName(name, "npm")).toBe(expected);
+  });
+
+  it("returns null when nothing usable remains", () => {
+    expect(normalizeProjectName("!!!", "npm")).toBeNull();
+  });
+});
+
+describe("validateGoModulePath", () => {
+  it("accepts a hosted module path", () => {
+    expect(validateGoModulePath("github.com/engineering/user-api")).toEqual(
+      [],
+    );
+  });
+
+  it.each([
+    ["engineering/user-api", "lowercase domain"],
+    ["GitHub.com/org/svc", "lowercase domain"],
+    ["github.com//svc", "empty path elements"],
+    ["github.com/org/my svc", "may only contain"],
+  ])("rejects %j", (modulePath, error) => {
+    expect(validateGoModulePath(modulePath).join("\n")).toContain(error);
+  });
+});
@@ -0,0 +1,217 @@
+import { ProjectEcosystem } from "../types";
+
+export interface ProjectNameValidation {
+  valid: boolean;
+  errors: string[];
+  suggestion: string | null;
+}
+
+export class ProjectNameError extends Error {
+  constructor(
+    public readonly projectName: string,
+    public readonly validation: ProjectNameValidation,
+  ) {
+    super(
+      `Invalid project name "${projectName}": ${validation.errors.join("; ")}` +
+        (validation.suggestion ? ` (try "${validation.suggestion}")` : ""),
+    );
+    this.name = "ProjectNameError";
+  }
+}
+
+const NPM_MAX_LENGTH = 214;
+
+// Node.js core modules and names npm refuses to publish
+const NPM_RESERVED_NAMES = [
+  "node_modules",
+  "favicon.ico",
+  "assert",
+  "buffer",
+  "child_process",
+  "cluster",
+  "crypto",
+  "dgram",
+  "dns",
+  "events",
+  "fs",
+  "http",
+  "http2",
+  "https",
+  "module",
+  "net",
+  "os",
+  "path",
+  "process",
+  "querystring",
+  "readline",
+  "stream",
+  "timers",
+  "tls",
+  "tty",
+  "url",
+  "util",
+  "v8",
+  "vm",
+  "worker_threads",
+  "zlib",
+];
+
+// Names Windows cannot use for a file, which Go rejects as path elements
+const WINDOWS_RESERVED_NAMES = [
+  "CON",
+  "PRN",
+  "AUX",
+  "NUL",
+  ...Array.from({ length: 9 }, (_, i) => `COM${i + 1}`),
+  ...Array.from({ length: 9 }, (_, i) => `LPT${i + 1}`),
+];
+
+const validateNpmName = (name: string): string[] => {
+  const errors: string[] = [];
+  if (name !== name.trim()) {
+    errors.push("must not have leading or trailing spaces");
+  }
+  if (name.length > NPM_MAX_LENGTH) {
+    errors.push(`must be at most ${NPM_MAX_LENGTH} characters`);
+  }
+  if (/^[._]/.test(name)) {
+    errors.push("must not start with a dot or underscore");
+  }
+  if (name !== name.toLowerCase()) {
+    errors.push("must be lowercase");
+  }
+  if (!/^[a-z0-9._~-]*$/i.test(name)) {
+    errors.push(
+      "may only contain letters, digits, hyphens, dots, underscores and tildes",
+    );
+  }
+  if (NPM_RESERVED_NAMES.includes(name.toLowerCase())) {
+    errors.push(`"${name}" is a reserved npm package name`);
+  }
+  return errors;
+};
+
+/**
+ * PEP 508 distribution names, kept in their PEP 503 normalized form
+ */
+const validatePypiName = (name: string): string[] => {
+  const errors: string[] = [];
+  if (!/^[A-Za-z0-9._-]*$/.test(name)) {
+    errors.push(
+      "may only contain letters, digits, hyphens, dots and underscores",
+    );
+  }
+  if (/^[._-]|[._-]$/.test(name)) {
+    errors.push("must start and end with a letter or digit");
+  }
+  if (name !== name.toLowerCase()) {
+    errors.push("must be lowercase");
+  }
+  if (/[._-]{2,}/.test(name)) {
+    errors.push("must not contain consecutive separators");
+  }
+  return errors;
+};
+
+/**
+ * Checks one slash-separated element of a Go module path
+ */
+const validateGoPathElement = (element: string): string[] => {
+  const errors: string[] = [];
+  if (!/^[A-Za-z0-9._~-]*$/.test(element)) {
+    errors.push(
+      "may only contain letters, digits, hyphens, dots, underscores and tildes",
+    );
+  }
+  if (element.startsWith(".") || element.endsWith(".")) {
+    errors.push("must not start or end with a dot");
+  }
+  if (/~\d+$/.test(element)) {
+    errors.push('must not end with a tilde followed by digits (e.g. "~1")');
+  }
+  if (WINDOWS_RESERVED_NAMES.includes(element.split(".")[0].toUpperCase())) {
+    errors.push(`"${element}" is a reserved file name on Windows`);
+  }
+  return errors;
+};
+
+/**
+ * Validates a full Go module path such as github.com/org/service
+ */
+export const validateGoModulePath = (modulePath: string): string[] => {
+  const elements = modulePath.split("/");
+  const errors: string[] = [];
+  if (elements.some((element) => element === "")) {
+    errors.push("must not contain empty path elements");
+  }
+  const [domain] = elements;
+  if (!domain.includes(".") || domain !== domain.toLowerCase()) {
+    errors.push("must start with a lowercase domain such as github.com");
+  }
+  if (domain.startsWith("-")) {
+    errors.push("must not start with a hyphen");
+  }
+  elements
+    .filter((element) => element !== "")
+    .forEach((element) => {
+      validateGoPathElement(element).forEach((error) =>
+        errors.push(`"${element}" ${error}`),
+      );
+    });
+  return errors;
+};
+
+/**
+ * Rewrites a name so that it satisfies the ecosystem's rules, or returns
+ * null when nothing usable is left
+ */
+export const normalizeProjectName = (
+  name: string,
+  ecosystem: ProjectEcosystem,
+): string | null => {
+  let normalized = name
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^[-._]+|[-._]+$/g, "")
+    .slice(0, NPM_MAX_LENGTH)
+    .replace(/[-._]+$/, "");
+  if (!normalized) return null;
+  if (ecosystem === "pypi") normalized = normalized.replace(/[-._]{2,}/g, "-");
+
+  const reserved =
+    ecosystem === "npm"
+      ? NPM_RESERVED_NAMES.includes(normalized)
+      : ecosystem === "go" &&
+        WINDOWS_RESERVED_NAMES.includes(normalized.split(".")[0].toUpperCase());
+  if (reserved) normalized = `${normalized}-service`;
+  return normalized;
+};
+
+/**
+ * Validates a project name against the target ecosystem: npm package name
+ * rules for Node templates, Go module path element rules for Go templates,
+ * PyPI distribution name rules for Python templates
+ */
+export const validateProjectName = (
+  name: string,
+  ecosystem: ProjectEcosystem,
+): ProjectNameValidation => {
+  const errors =
+    name === ""
+      ? ["is required"]
+      : ecosystem === "npm"
+        ? validateNpmName(name)
+        : ecosystem === "pypi"
+          ? validatePypiName(name)
+          : validateGoPathElement(name);
+  const suggestion = normalizeProjectName(name, ecosystem);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    suggestion: errors.length > 0 && suggestion !== name ? suggestion : null,
+  };
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { TemplateType } from "../types";
+import { checkConsistency } from "./consistencyChecker";
+import {
+  addResource,
+  parseResourceFields,
+  ResourceError,
+} from "./resourceScaffolder";
+import { content, project } from "./testUtils";
+
+const blogPost = {
+  name: "blog post",
+  fields: parseResourceFields("title, views:integer, rating?:number"),
+};
+
+describe("parseResourceFields", () => {
+  it("parses types and optional markers, defaulting to string", () => {
+    expect(
+      parseResourceFields(" title, price?: number ,draft:boolean"),
+    ).toEqual([
+      { name: "title", type: "string", optional: false },
+      { name: "price", type: "number", optional: true },
+      { name: "draft", type: "boolean", optional: false },
+    ]);
+  });
+
+  it("rejects unknown types and malformed entries", () => {
+    expect(() => parseResourceFields("price:money")).toThrow(
+      'Field "price" has unknown type "money"',
+    );
+    expect(() => parseResourceFields("title:string:extra")).toThrow(
+      ResourceError,
+    );
+  });
+});
+
+describe("addResource", () => {
+  it("adds Express routes, controller, service, DTO and tests", () => {
+    const result = addResource(
+      project(TemplateType.TYPESCRIPT_EXPRESS),
+      blogPost,
+    );
+    const added = result.files.slice(-5).map((file) => file.path);
+
+    expect(added).toEqual([
+      "src/dtos/blog-post.dto.ts",
+      "src/services/blog-post.service.ts",
+      "src/controllers/blog-post.controller.ts",
+      "src/routes/blog-post.routes.ts",
+      "src/tests/blog-post.test.ts",
+    ]);
+    expect(content(result, "src/app.ts")).toContain(
+      "app.use('/api/v1/blog-posts', createBlogPostRouter(container.get(BlogPostController)));",
+    );
+    expect(content(result, "src/container.ts")).toContain(
+      "container.bind(BlogPostService).toSelf().inSingletonScope();",
+    );
+    expect(content(result, "src/dtos/blog-post.dto.ts")).toContain(
+      "rating?: number;",
+    );
+    expect(checkConsistency(result.files)).toEqual([]);
+  });
+
+  it("builds the controller by hand without a DI container", () => {
+    const result = addResource(
+      project(TemplateType.TYPESCRIPT_EXPRESS, { di: "manual" }, false),
+      blogPost,
+    );
+
+    expect(content(result, "src/app.ts")).toContain(
+      "createBlogPostRouter(new BlogPostController(new BlogPostService()))",
+    );
+    expect(result.files.map((file) => file.path)).not.toContain(
+      "src/tests/blog-post.test.ts",
+    );
+    expect(checkConsistency(result.files)).toEqual([]);
+  });
+
+  it("adds Go layers and wires the handler into the router", () => {
+    const result = addResource(
+      project(TemplateType.GO_CLEAN_ARCH, { router: "chi" }),
+      blogPost,
+    );
+
+    expect(content(result, "internal/domain/blog_post.go")).toContain(
+      '\tRating float64 `json:"rating,omitempty"`',
+    );
+    expect(content(result, "cmd/api/router.go")).toContain(
+      'r.Route("/api/v1/blog-posts", blogPosts.Register)',
+    );
+    expect(content(result, "cmd/api/wiring.go")).toContain(
+      "newRouter(logger, checker, userHandler, blogPostHandler)",
+    );
+    expect(content(result, "docs/openapi.yaml")).toContain(
+      "  /api/v1/blog-posts/{id}:\n    get:\n      operationId: getBlogPost",
+    );
+    expect(checkConsistency(result.files)).toEqual([]);
+  });
+
+  it("adds Go providers to Wire and fx", () => {
+    ["wire", "fx"].forEach((di) => {
+      const result = addResource(
+        project(TemplateType.GO_CLEAN_ARCH, { di }),
+        blogPost,
+      );
+      expect(
+        content(result, `cmd/api/${di === "fx" ? "main" : "wire"}.go`),
+      ).toContain("memory.NewBlogPostRepository,");
+    });
+  });
+
+  it("rejects resources that already exist", () => {
+    const once = addResource(project(TemplateType.GO_CLEAN_ARCH), blogPost);
+    expect(() => addResource(once, blogPost)).toThrow(
+      'Resource "BlogPost" would overwrite internal/domain/blog_post.go',
+    );
+    expect(() =>
+      addResource(project(TemplateType.GO_CLEAN_ARCH), {
+        ...blogPost,
+        name: "User",
+      }),
+    ).toThrow(ResourceError);
+  });
+
+  it("rejects invalid names and fields", () => {
+    const express = project(TemplateType.TYPESCRIPT_EXPRESS);
+    expect(() => addResource(express, { ...blogPost, name: "2fa" })).toThrow(
+      'Invalid resource name "2fa"',
+    );
+    expect(() => addResource(express, { ...blogPost, name: "type" })).toThrow(
+      'Resource name "type" is a reserved word',
+    );
+    expect(() =>
+      addResource(express, { ...blogPost, fields: parseResourceFields("id") }),
+    ).toThrow('"id" is generated for every resource');
+    expect(() =>
+      addResource(express, {
+        ...blogPost,
+        fields: parseResourceFields("title, title"),
+      }),
+    ).toThrow('Duplicate field "title"');
+  });
+
+  it("rejects templates without resource support", () => {
+    expect(() => addResource(project(TemplateType.CLI_TOOL), blogPost)).toThrow(
+      "projects do not support resources",
+    );
+  });
+});
@@ -0,0 +1,328 @@
+import {
+  ProjectStructure,
+  ResourceDefinition,
+  ResourceField,
+  ResourceFieldType,
+  ResourceGenerator,
+  TemplateValue,
+} from "../types";
+import { builtInResourceGenerators } from "../resources";
+import { renderManifest } from "./manifestLoader";
+import {
+  addToApiDocument,
+  ApiDocumentAdditions,
+  toSchemaObject,
+} from "./openApiDocument";
+import { alignColumns, convert, RESERVED_WORDS } from "./codeStyle";
+import { getTemplate } from "./templateRegistry";
+import { resolveProjectVariables } from "./templateService";
+
+export class ResourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResourceError";
+  }
+}
+
+const FIELD_TYPES: ResourceFieldType[] = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+];
+
+const TS_TYPES: Record<ResourceFieldType, string> = {
+  string: "string",
+  number: "number",
+  integer: "number",
+  boolean: "boolean",
+};
+
+const GO_TYPES: Record<ResourceFieldType, string> = {
+  string: "string",
+  number: "float64",
+  integer: "int",
+  boolean: "bool",
+};
+
+const SAMPLES: Record<ResourceFieldType, TemplateValue> = {
+  string: "example",
+  number: 9.99,
+  integer: 42,
+  boolean: true,
+};
+
+const pluralize = (word: string): string => {
+  if (/(s|x|z|ch|sh)$/i.test(word)) return `${word}es`;
+  if (/[^aeiou]y$/i.test(word)) return `${word.slice(0, -1)}ies`;
+  return `${word}s`;
+};
+
+/** The CRUD routes and schemas of a resource, for the project's OpenAPI document */
+const describeResource = (
+  name: string,
+  plural: string,
+  path: string,
+  fields: ResourceField[],
+): ApiDocumentAdditions => {
+  const json = (schema: Record<string, unknown>) => ({
+    content: { "application/json": { schema } },
+  });
+  const ref = (schema: string) => toSchemaObject({ kind: "ref", name: schema });
+  const body = {
+    requestBody: { required: true, ...json(ref(`${name}Input`)) },
+  };
+  const id = {
+    parameters: [
+      { name: "id", in: "path", required: true, schema: { type: "string" } },
+    ],
+  };
+  const invalid = { description: "The body is invalid" };
+  const notFound = {
+    description: `No ${convert(name, "kebab").replace(/-/g, " ")} has this id`,
+  };
+  const required = fields
+    .filter((field) => !field.optional)
+    .map((field) => field.name);
+  const properties = Object.fromEntries(
+    fields.map((field) => [field.name, toSchemaObject({ kind: field.type })]),
+  );
+
+  return {
+    paths: {
+      [path]: {
+        get: {
+          operationId: `list${plural}`,
+          responses: {
+            200: {
+              description: "Every item",
+              ...json({ type: "array", items: ref(name) }),
+            },
+          },
+        },
+        post: {
+          operationId: `create${name}`,
+          ...body,
+          responses: {
+            201: { description: "Created", ...json(ref(name)) },
+            400: invalid,
+          },
+        },
+      },
+      [`${path}/{id}`]: {
+        get: {
+          operationId: `get${name}`,
+          ...id,
+          responses: {
+            200: { description: "The item", ...json(ref(name)) },
+            404: notFound,
+          },
+        },
+        put: {
+          operationId: `update${name}`,
+          ...id,
+          ...body,
+          responses: {
+            200: { description: "Updated", ...json(ref(name)) },
+            400: invalid,
+            404: notFound,
+          },
+        },
+        delete: {
+          operationId: `delete${name}`,
+          ...id,
+          responses: { 204: { description: "Deleted" }, 404: notFound },
+        },
+      },
+    },
+    schemas: {
+      [name]: {
+        type: "object",
+        required: ["id", ...required],
+        properties: { id: { type: "string" }, ...properties },
+      },
+      [`${name}Input`]: {
+        type: "object",
+        ...(required.length > 0 ? { required } : {}),
+        properties,
+      },
+    },
+  };
+};
+
+/**
+ * Parses a field list such as `title:string, price?:number, draft:boolean`.
+ * A `?` marks an optional field and a field without a type is a string.
+ */
+export const parseResourceFields = (input: string): ResourceField[] =>
+  input
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = /^(\w+)(\?)?(?:\s*:\s*(\w+))?$/.exec(entry);
+      if (!match) {
+        throw new ResourceError(
+          `Invalid field "${entry}"; expected name:type, e.g. price:number`,
+        );
+      }
+      const [, name, optional, type = "string"] = match;
+      if (!FIELD_TYPES.includes(type as ResourceFieldType)) {
+        throw new ResourceError(
+          `Field "${name}" has unknown type "${type}"; use one of ${FIELD_TYPES.join(", ")}`,
+        );
+      }
+      return {
+        name,
+        type: type as ResourceFieldType,
+        optional: optional === "?",
+      };
+    });
+
+/**
+ * Checks that a resource name and its fields make valid identifiers in
+ * every supported language
+ */
+export const validateResource = (resource: ResourceDefinition): void => {
+  if (!/^[A-Za-z][A-Za-z0-9 _-]*$/.test(resource.name.trim())) {
+    throw new ResourceError(
+      `Invalid resource name "${resource.name}"; use letters and digits, e.g. BlogPost`,
+    );
+  }
+  const name = convert(resource.name, "camel");
+  const reserved = [name, pluralize(name)].find((word) =>
+    RESERVED_WORDS.includes(word),
+  );
+  if (reserved) {
+    throw new ResourceError(`Resource name "${reserved}" is a reserved word`);
+  }
+  if (resource.fields.length === 0) {
+    throw new ResourceError("A resource needs at least one field");
+  }
+  const seen = new Set<string>();
+  resource.fields.forEach((field) => {
+    if (!/^[a-z][A-Za-z0-9]*$/.test(field.name)) {
+      throw new ResourceError(
+        `Invalid field name "${field.name}"; use camelCase, e.g. createdAt`,
+      );
+    }
+    if (field.name.toLowerCase() === "id") {
+      throw new ResourceError('"id" is generated for every resource');
+    }
+    if (seen.has(field.name)) {
+      throw new ResourceError(`Duplicate field "${field.name}"`);
+    }
+    seen.add(field.name);
+  });
+};
+
+/**
+ * Finds the resource generator for a template, if it has one
+ */
+export const getResourceGenerator = (
+  template: string,
+): ResourceGenerator | undefined => {
+  const { id } = getTemplate(template);
+  return builtInResourceGenerators.find((generator) =>
+    generator.templates.includes(id),
+  );
+};
+
+/**
+ * Adds a CRUD resource to a generated project: its new files are rendered
+ * with the project's own variables and registered with the routes and
+ * wiring already in the project
+ */
+export const addResource = (
+  project: ProjectStructure,
+  resource: ResourceDefinition,
+): ProjectStructure => {
+  const generator = getResourceGenerator(project.template);
+  if (!generator) {
+    throw new ResourceError(
+      `${getTemplate(project.template).name} projects do not support resources`,
+    );
+  }
+  validateResource(resource);
+
+  const name = convert(resource.name, "pascal");
+  const plural = pluralize(name);
+  const { fields } = resource;
+  const sample = Object.fromEntries(
+    fields.map((field) => [field.name, SAMPLES[field.type]]),
+  );
+  const variables = {
+    ...resolveProjectVariables(
+      project.projectName,
+      project.template,
+      project.options,
+    ),
+    resource: {
+      name,
+      plural,
+      label: convert(name, "kebab").replace(/-/g, " "),
+      labelPlural: convert(plural, "kebab").replace(/-/g, " "),
+      path: `/api/v1/${convert(plural, "kebab")}`,
+      sample: {
+        json: JSON.stringify(sample),
+        ts: `{ ${fields
+          .map(
+            (field) =>
+              `${field.name}: ${JSON.stringify(SAMPLES[field.type]).replace(/"/g, "'")}`,
+          )
+          .join(", ")} }`,
+      },
+    },
+    fields: fields.map((field) => ({
+      ...field,
+      tsType: TS_TYPES[field.type],
+      goType: GO_TYPES[field.type],
+    })),
+    requiredFields: fields
+      .filter((field) => !field.optional)
+      .map((field) => field.name),
+    goFields: {
+      entity: alignColumns([
+        ["ID", "string", '`json:"id"`'],
+        ...fields.map((field) => [
+          convert(field.name, "pascal"),
+          GO_TYPES[field.type],
+          `\`json:"${field.name}${field.optional ? ",omitempty" : ""}"\``,
+        ]),
+      ]),
+      request: alignColumns(
+        fields.map((field) => [
+          convert(field.name, "pascal"),
+          `*${GO_TYPES[field.type]}`,
+          `\`json:"${field.name}"\``,
+        ]),
+      ),
+    },
+  };
+
+  const files = renderManifest(generator.manifest, variables);
+  const existing = files.filter((file) =>
+    project.files.some(({ path }) => path === file.path),
+  );
+  if (existing.length > 0) {
+    throw new ResourceError(
+      `Resource "${name}" would overwrite ${existing.map((file) => file.path).join(", ")}`,
+    );
+  }
+
+  const registered = [
+    ...generator.register(project.files, variables),
+    ...files,
+  ];
+  const { apiDocument } = getTemplate(project.template);
+  return {
+    ...project,
+    files: apiDocument
+      ? addToApiDocument(
+          registered,
+          apiDocument,
+          describeResource(name, plural, variables.resource.path, fields),
+        )
+      : registered,
+  };
+};
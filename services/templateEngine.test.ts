@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateCondition,
+  findUnresolvedPlaceholders,
+  renderTemplate,
+  TemplateRenderError,
+} from "./templateEngine";
+
+describe("renderTemplate", () => {
+  it.each([
+    ["kebab", "userAPI", "user-api"],
+    ["snake", "OrderItem", "order_item"],
+    ["camel", "order-item", "orderItem"],
+    ["pascal", "order_item", "OrderItem"],
+    ["constant", "maxRetries", "MAX_RETRIES"],
+    ["pascal", "HTTPServer", "HttpServer"],
+    ["camel", "getHTTPStatus", "getHttpStatus"],
+    ["snake", "parseJSONBody", "parse_json_body"],
+    ["kebab", "userID", "user-id"],
+    ["upper", "api", "API"],
+    ["lower", "API", "api"],
+    ["json", 'a "b"', '"a \\"b\\""'],
+  ])("applies the %s filter to %s", (filter, value, expected) => {
+    expect(renderTemplate(`{{ value | ${filter} }}`, { value })).toBe(expected);
+  });
+
+  it("chains filters and reads nested values", () => {
+    expect(
+      renderTemplate("{{ user.name | snake | upper }}", {
+        user: { name: "firstName" },
+      }),
+    ).toBe("FIRST_NAME");
+  });
+
+  it("renders if/else branches and drops block tag lines", () => {
+    const source = [
+      "start",
+      '{{#if router == "chi" && includeTests}}',
+      "chi",
+      "{{else}}",
+      "other",
+      "{{/if}}",
+      "end",
+    ].join("\n");
+
+    expect(renderTemplate(source, { router: "chi", includeTests: true })).toBe(
+      "start\nchi\nend",
+    );
+    expect(renderTemplate(source, { router: "mux", includeTests: true })).toBe(
+      "start\nother\nend",
+    );
+  });
+
+  it("loops with each, exposing the loop variables", () => {
+    const source = [
+      "{{#each fields as field}}",
+      "{{ @index }}:{{ field.name }}{{#if !@last}},{{/if}}",
+      "{{/each}}",
+    ].join("\n");
+
+    expect(
+      renderTemplate(source, { fields: [{ name: "id" }, { name: "email" }] }),
+    ).toBe("0:id,\n1:email\n");
+  });
+
+  it("emits raw blocks verbatim", () => {
+    expect(
+      renderTemplate("{{raw}}{{ .Values.port }}{{/raw}} {{ port }}", {
+        port: 8080,
+      }),
+    ).toBe("{{ .Values.port }} 8080");
+  });
+
+  it.each([
+    ["{{ missing }}", 'Unknown variable "missing" on line 1'],
+    ["{{ name | shout }}", 'Unknown filter "shout" on line 1'],
+    ["a\n{{#if name}}", "Unclosed {{#if}} on line 2"],
+    ["{{/each}}", "Unexpected {{/each}} on line 1"],
+    ["{{#each name as item}}{{/each}}", '"name" is not a list on line 1'],
+  ])("rejects %j", (source, message) => {
+    expect(() => renderTemplate(source, { name: "api" })).toThrow(
+      new TemplateRenderError(message),
+    );
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("gives && precedence over ||", () => {
+    expect(
+      evaluateCondition("a && b || c", { a: true, b: false, c: true }),
+    ).toBe(true);
+    expect(
+      evaluateCondition("a && b || c", { a: true, b: false, c: false }),
+    ).toBe(false);
+  });
+
+  it("compares with literals and treats empty lists as false", () => {
+    expect(evaluateCondition("port != 3000", { port: 8080 })).toBe(true);
+    expect(evaluateCondition("!fields", { fields: [] })).toBe(true);
+  });
+});
+
+describe("findUnresolvedPlaceholders", () => {
+  it("finds leftover tags but ignores GitHub and Go template expressions", () => {
+    expect(
+      findUnresolvedPlaceholders(
+        [
+          "name: {{ projectName }}",
+          "{{#if includeTests}}",
+          "key: ${{ runner.os }}",
+          "port: {{ .Values.port }}",
+          "{{/if}}",
+        ].join("\n"),
+      ),
+    ).toEqual(["{{ projectName }}", "{{#if includeTests}}", "{{/if}}"]);
+  });
+});
@@ -0,0 +1,286 @@
+import { TemplateValue, TemplateVariables } from "../types";
+
+/**
+ * Template syntax:
+ *   {{ name }}, {{ item.name | pascal }}     variable with optional filters
+ *   {{#if cond}} ... {{else}} ... {{/if}}    cond: a, !a, a == "x", a && b || c
+ *   {{#each list as item}} ... {{/each}}     exposes @index, @first, @last
+ *   {{raw}} ... {{/raw}}                     emitted verbatim
+ * Block tags alone on a line are removed together with that line.
+ */
+
+export class TemplateRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateRenderError";
+  }
+}
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "var"; path: string; filters: string[]; line: number }
+  | { type: "if"; condition: string; then: Node[]; else: Node[]; line: number }
+  | { type: "each"; path: string; alias: string; body: Node[]; line: number };
+
+type Scope = Record<string, TemplateValue | undefined>;
+
+const words = (value: string): string[] =>
+  value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+
+const capitalize = (word: string) =>
+  word.charAt(0).toUpperCase() + word.slice(1);
+
+const FILTERS: Record<string, (value: TemplateValue) => TemplateValue> = {
+  kebab: (value) => words(String(value)).join("-"),
+  snake: (value) => words(String(value)).join("_"),
+  camel: (value) =>
+    words(String(value))
+      .map((word, i) => (i === 0 ? word : capitalize(word)))
+      .join(""),
+  pascal: (value) => words(String(value)).map(capitalize).join(""),
+  constant: (value) => words(String(value)).join("_").toUpperCase(),
+  upper: (value) => String(value).toUpperCase(),
+  lower: (value) => String(value).toLowerCase(),
+  json: (value) => JSON.stringify(value),
+};
+
+const BLOCK_TAG =
+  /^[ \t]*({{\s*(?:#if|#each|\/if|\/each|else|raw|\/raw)\b[^}]*}})[ \t]*(?:\r?\n|$)/gm;
+
+const lineAt = (source: string, offset: number) =>
+  source.slice(0, offset).split("\n").length;
+
+const parse = (source: string): Node[] => {
+  const text = source.replace(BLOCK_TAG, "$1");
+  const root: Node[] = [];
+  const stack: { node: Node; target: Node[] }[] = [];
+  let target = root;
+  let cursor = 0;
+  const tag = /{{\s*([\s\S]*?)\s*}}/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tag.exec(text)) !== null) {
+    if (match.index > cursor) {
+      target.push({ type: "text", value: text.slice(cursor, match.index) });
+    }
+    cursor = tag.lastIndex;
+    const body = match[1];
+    const line = lineAt(text, match.index);
+
+    if (body === "raw") {
+      const end = text.indexOf("{{/raw}}", cursor);
+      if (end === -1)
+        throw new TemplateRenderError(`Unclosed {{raw}} on line ${line}`);
+      target.push({ type: "text", value: text.slice(cursor, end) });
+      cursor = tag.lastIndex = end + "{{/raw}}".length;
+    } else if (body.startsWith("#if ")) {
+      const node: Node = {
+        type: "if",
+        condition: body.slice(4).trim(),
+        then: [],
+        else: [],
+        line,
+      };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.then;
+    } else if (body.startsWith("#each ")) {
+      const each = /^#each\s+([\w.@]+)\s+as\s+(\w+)$/.exec(body);
+      if (!each)
+        throw new TemplateRenderError(`Malformed {{${body}}} on line ${line}`);
+      const node: Node = {
+        type: "each",
+        path: each[1],
+        alias: each[2],
+        body: [],
+        line,
+      };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.body;
+    } else if (body === "else") {
+      const open = stack[stack.length - 1]?.node;
+      if (open?.type !== "if")
+        throw new TemplateRenderError(`Unexpected {{else}} on line ${line}`);
+      target = open.else;
+    } else if (body === "/if" || body === "/each") {
+      const open = stack.pop();
+      if (!open || `/${open.node.type}` !== body) {
+        throw new TemplateRenderError(`Unexpected {{${body}}} on line ${line}`);
+      }
+      target = open.target;
+    } else {
+      const [path, ...filters] = body.split("|").map((part) => part.trim());
+      if (!/^[\w@][\w.@]*$/.test(path)) {
+        throw new TemplateRenderError(
+          `Invalid expression {{${body}}} on line ${line}`,
+        );
+      }
+      target.push({ type: "var", path, filters, line });
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1].node as { type: string; line: number };
+    throw new TemplateRenderError(
+      `Unclosed {{#${open.type}}} on line ${open.line}`,
+    );
+  }
+  if (cursor < text.length)
+    target.push({ type: "text", value: text.slice(cursor) });
+  return root;
+};
+
+const lookup = (scopes: Scope[], path: string, line: number): TemplateValue => {
+  const [head, ...rest] = path.split(".");
+  const scope = [...scopes].reverse().find((s) => head in s);
+  if (!scope || scope[head] === undefined) {
+    throw new TemplateRenderError(`Unknown variable "${path}" on line ${line}`);
+  }
+  return rest.reduce<TemplateValue>((value, key) => {
+    if (typeof value !== "object" || Array.isArray(value) || !(key in value)) {
+      throw new TemplateRenderError(
+        `Unknown variable "${path}" on line ${line}`,
+      );
+    }
+    return value[key];
+  }, scope[head] as TemplateValue);
+};
+
+const operand = (
+  scopes: Scope[],
+  token: string,
+  line: number,
+): TemplateValue => {
+  if (/^(["']).*\1$/.test(token)) return token.slice(1, -1);
+  if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token);
+  if (token === "true" || token === "false") return token === "true";
+  return lookup(scopes, token, line);
+};
+
+const truthy = (value: TemplateValue) =>
+  Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+/**
+ * Evaluates a condition such as `includeTests && router == "chi"`
+ */
+export const evaluateCondition = (
+  condition: string,
+  variables: TemplateVariables,
+  line = 1,
+): boolean => {
+  const scopes = [variables as Scope];
+  return condition.split("||").some((any) =>
+    any.split("&&").every((term) => {
+      const comparison = /^(.+?)\s*(==|!=)\s*(.+)$/.exec(term.trim());
+      if (comparison) {
+        const equal =
+          operand(scopes, comparison[1].trim(), line) ===
+          operand(scopes, comparison[3].trim(), line);
+        return comparison[2] === "==" ? equal : !equal;
+      }
+      const negated = term.trim().startsWith("!");
+      const value = truthy(
+        operand(scopes, term.trim().replace(/^!\s*/, ""), line),
+      );
+      return negated ? !value : value;
+    }),
+  );
+};
+
+const renderNodes = (nodes: Node[], scopes: Scope[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "var": {
+          const value = node.filters.reduce(
+            (current, name) => {
+              const filter = FILTERS[name];
+              if (!filter) {
+                throw new TemplateRenderError(
+                  `Unknown filter "${name}" on line ${node.line}`,
+                );
+              }
+              return filter(current);
+            },
+            lookup(scopes, node.path, node.line),
+          );
+          return String(value);
+        }
+        case "if": {
+          const scope = Object.assign({}, ...scopes) as TemplateVariables;
+          return evaluateCondition(node.condition, scope, node.line)
+            ? renderNodes(node.then, scopes)
+            : renderNodes(node.else, scopes);
+        }
+        case "each": {
+          const list = lookup(scopes, node.path, node.line);
+          if (!Array.isArray(list)) {
+            throw new TemplateRenderError(
+              `"${node.path}" is not a list on line ${node.line}`,
+            );
+          }
+          return list
+            .map((item, i) =>
+              renderNodes(node.body, [
+                ...scopes,
+                {
+                  [node.alias]: item,
+                  "@index": i,
+                  "@first": i === 0,
+                  "@last": i === list.length - 1,
+                },
+              ]),
+            )
+            .join("");
+        }
+      }
+    })
+    .join("");
+
+/**
+ * Renders a template string against a set of typed variables
+ */
+export const renderTemplate = (
+  source: string,
+  variables: TemplateVariables,
+): string => renderNodes(parse(source), [variables]);
+
+/**
+ * Renders every string inside a nested value, e.g. a docker-compose service
+ */
+export const renderTemplateValue = (
+  value: TemplateValue,
+  variables: TemplateVariables,
+): TemplateValue => {
+  if (typeof value === "string") return renderTemplate(value, variables);
+  if (Array.isArray(value)) {
+    return value.map((item) => renderTemplateValue(item, variables));
+  }
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        renderTemplateValue(item, variables),
+      ]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Finds template placeholders left unresolved in generated content.
+ * `${{ ... }}` expressions (GitHub Actions) and Go-template actions such as
+ * `{{ .Values.port }}` are not ours and are ignored.
+ */
+export const findUnresolvedPlaceholders = (content: string): string[] =>
+  content.match(
+    /(?<!\$){{\s*(?:[#/]?[A-Za-z_@][\w.@]*(?:\s*\|\s*\w+)*|#(?:if|each)\s[^}]*|else)\s*}}/g,
+  ) ?? [];
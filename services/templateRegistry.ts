@@ -0,0 +1,38 @@
+import { TemplateDefinition } from "../types";
+import { builtInTemplates } from "../templates";
+
+const registry = new Map<string, TemplateDefinition>();
+
+/**
+ * Registers a template so it can be picked in the UI and generated
+ */
+export const registerTemplate = (definition: TemplateDefinition): void => {
+  if (registry.has(definition.id)) {
+    throw new Error(`Template "${definition.id}" is already registered`);
+  }
+  if (listTemplates().some((template) => template.slug === definition.slug)) {
+    throw new Error(`Template slug "${definition.slug}" is already registered`);
+  }
+  registry.set(definition.id, definition);
+};
+
+/**
+ * Looks up a registered template by id or slug
+ */
+export const getTemplate = (id: string): TemplateDefinition => {
+  const definition =
+    registry.get(id) ??
+    listTemplates().find((template) => template.slug === id);
+  if (!definition) {
+    throw new Error(`Unknown template "${id}"`);
+  }
+  return definition;
+};
+
+/**
+ * Lists all registered templates in registration order
+ */
+export const listTemplates = (): TemplateDefinition[] =>
+  Array.from(registry.values());
+
+builtInTemplates.forEach(registerTemplate);
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { parse as parseYaml } from "yaml";
+import { TemplateType, TemplateVariableDefinition } from "../types";
+import { getTemplate } from "./templateRegistry";
+import { generateFiles } from "./templateService";
+import {
+  parseVariableInput,
+  resolveTemplateVariables,
+  retainTemplateVariables,
+  validateTemplateVariables,
+} from "./templateVariables";
+
+const port: TemplateVariableDefinition = {
+  name: "port",
+  label: "Default Port",
+  type: "number",
+  default: 3000,
+  min: 1,
+  max: 65535,
+};
+
+const module: TemplateVariableDefinition = {
+  name: "goModulePath",
+  label: "Go Module Path",
+  type: "string",
+  default: "github.com/example/{{ projectName }}",
+  required: true,
+  format: "go-module-path",
+};
+
+describe("resolveTemplateVariables", () => {
+  it("renders string defaults and keeps user-supplied values", () => {
+    expect(
+      resolveTemplateVariables([port, module], "user-api", { port: 8080 }),
+    ).toEqual({ port: 8080, goModulePath: "github.com/example/user-api" });
+  });
+
+  it("falls back to the default for a cleared field", () => {
+    const cleared = {
+      port: parseVariableInput(port, ""),
+      goModulePath: parseVariableInput(module, ""),
+    };
+    const values = resolveTemplateVariables(
+      [port, module],
+      "user-api",
+      cleared,
+    );
+
+    expect(cleared).toEqual({ port: "", goModulePath: "" });
+    expect(values).toEqual({
+      port: 3000,
+      goModulePath: "github.com/example/user-api",
+    });
+    expect(validateTemplateVariables([port, module], values)).toEqual({});
+  });
+});
+
+describe("validateTemplateVariables", () => {
+  it("reports each invalid value by name", () => {
+    expect(
+      validateTemplateVariables([port, module], {
+        port: 70000,
+        goModulePath: "",
+      }),
+    ).toEqual({
+      port: "must be at most 65535",
+      goModulePath: "is required",
+    });
+  });
+
+  it("checks values against their declared format", () => {
+    expect(
+      validateTemplateVariables([module], {
+        goModulePath: "GitHub.com/acme//api~1",
+      }),
+    ).toEqual({
+      goModulePath:
+        'must not contain empty path elements; must start with a lowercase domain such as github.com; "api~1" must not end with a tilde followed by digits (e.g. "~1")',
+    });
+  });
+});
+
+describe("retainTemplateVariables", () => {
+  it("drops a choice the new template does not offer", () => {
+    const go = getTemplate(TemplateType.GO_CLEAN_ARCH).variables;
+    const retained = retainTemplateVariables(go, {
+      di: "tsyringe",
+      port: 4000,
+      nodeVersion: "20",
+    });
+    const values = resolveTemplateVariables(go, "user-api", retained);
+
+    expect(retained).toEqual({ port: 4000 });
+    expect(values.di).toBe("manual");
+    expect(validateTemplateVariables(go, values)).toEqual({});
+  });
+
+  it("keeps values the new template accepts", () => {
+    expect(
+      retainTemplateVariables(
+        getTemplate(TemplateType.GO_CLEAN_ARCH).variables,
+        { di: "manual", router: "chi" },
+      ),
+    ).toEqual({ di: "manual", router: "chi" });
+  });
+});
+
+describe("generateFiles", () => {
+  it("rejects a Go module path that breaks Go's rules", () => {
+    expect(() =>
+      generateFiles("user-api", TemplateType.GO_CLEAN_ARCH, {
+        includeTests: true,
+        includeLinter: true,
+        variables: { goModulePath: "github.com/acme/.api" },
+        features: [],
+      }),
+    ).toThrow('goModulePath: ".api" must not start or end with a dot');
+  });
+
+  it("uses the default port when the Port field is cleared", () => {
+    const files = generateFiles("user-api", TemplateType.TYPESCRIPT_EXPRESS, {
+      includeTests: true,
+      includeLinter: true,
+      variables: { port: "" },
+      features: [],
+    });
+    const compose = parseYaml(
+      files.find((file) => file.path === "docker-compose.yml")!.content,
+    );
+
+    expect(compose.services.app.ports).toEqual(["3000:3000"]);
+    expect(
+      files.find((file) => file.path === ".env.example")!.content,
+    ).toContain("PORT=3000");
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  TemplateValue,
+  TemplateVariableDefinition,
+  TemplateVariableFormat,
+  TemplateVariables,
+} from "../types";
+import { validateGoModulePath } from "./projectNameValidation";
+import { renderTemplate } from "./templateEngine";
+
+const FORMATS: Record<TemplateVariableFormat, (value: string) => string[]> = {
+  "go-module-path": validateGoModulePath,
+};
+
+export class TemplateVariableError extends Error {
+  constructor(public readonly errors: Record<string, string>) {
+    super(
+      Object.entries(errors)
+        .map(([name, error]) => `${name}: ${error}`)
+        .join("; "),
+    );
+    this.name = "TemplateVariableError";
+  }
+}
+
+/**
+ * Resolves a template's variables: declared defaults, where string defaults
+ * may reference {{ projectName }}, overridden by user-supplied values. A
+ * cleared field ("") counts as unset and keeps the default.
+ */
+export const resolveTemplateVariables = (
+  definitions: TemplateVariableDefinition[],
+  projectName: string,
+  overrides: TemplateVariables = {},
+): TemplateVariables =>
+  Object.fromEntries(
+    definitions.map((definition) => {
+      const override = overrides[definition.name];
+      if (override !== undefined && override !== "") {
+        return [definition.name, override];
+      }
+      return [
+        definition.name,
+        typeof definition.default === "string"
+          ? renderTemplate(definition.default, { projectName })
+          : definition.default,
+      ];
+    }),
+  );
+
+const validateValue = (
+  definition: TemplateVariableDefinition,
+  value: TemplateValue | undefined,
+): string | null => {
+  const empty =
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0);
+  if (empty) return definition.required ? "is required" : null;
+
+  switch (definition.type) {
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return "must be a number";
+      }
+      if (definition.min !== undefined && value < definition.min) {
+        return `must be at least ${definition.min}`;
+      }
+      if (definition.max !== undefined && value > definition.max) {
+        return `must be at most ${definition.max}`;
+      }
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be true or false";
+    case "list":
+      return Array.isArray(value) ? null : "must be a list";
+    default:
+      if (typeof value !== "string") return "must be text";
+      if (definition.choices && !definition.choices.includes(value)) {
+        return `must be one of ${definition.choices.join(", ")}`;
+      }
+      if (definition.pattern && !new RegExp(definition.pattern).test(value)) {
+        return `must match ${definition.pattern}`;
+      }
+      if (definition.format) {
+        const errors = FORMATS[definition.format](value);
+        if (errors.length > 0) return errors.join("; ");
+      }
+      return null;
+  }
+};
+
+/**
+ * Validates resolved variable values, keyed by variable name
+ */
+export const validateTemplateVariables = (
+  definitions: TemplateVariableDefinition[],
+  values: TemplateVariables,
+): Record<string, string> =>
+  Object.fromEntries(
+    definitions
+      .map((definition) => [
+        definition.name,
+        validateValue(definition, values[definition.name]),
+      ])
+      .filter(([, error]) => error !== null),
+  );
+
+/**
+ * Keeps the user-supplied values that are also valid for another template's
+ * variables, so switching templates drops a choice the new one lacks
+ */
+export const retainTemplateVariables = (
+  definitions: TemplateVariableDefinition[],
+  values: TemplateVariables,
+): TemplateVariables =>
+  Object.fromEntries(
+    definitions
+      .filter(
+        (definition) =>
+          definition.name in values &&
+          validateValue(definition, values[definition.name]) === null,
+      )
+      .map((definition) => [definition.name, values[definition.name]]),
+  );
+
+/**
+ * Converts raw form input into a value of the variable's declared type.
+ * Boolean input other than "true" or "false" is kept as typed so validation
+ * reports it.
+ */
+export const parseVariableInput = (
+  definition: TemplateVariableDefinition,
+  input: string,
+): TemplateValue => {
+  switch (definition.type) {
+    case "number":
+      return input.trim() === "" ? "" : Number(input);
+    case "boolean":
+      if (input === "true") return true;
+      if (input === "false") return false;
+      return input;
+    case "list":
+      return input
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+    default:
+      return input;
+  }
+};
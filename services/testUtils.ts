@@ -0,0 +1,31 @@
+import { ProjectOptions, ProjectStructure } from "../types";
+import { generateFiles } from "./templateService";
+
+/**
+ * Test fixture: a freshly generated "user-api" project with the linter on
+ */
+export const project = (
+  template: string,
+  variables: ProjectOptions["variables"] = {},
+  includeTests = true,
+): ProjectStructure => {
+  const options = {
+    includeTests,
+    includeLinter: true,
+    variables,
+    features: [],
+  };
+  return {
+    projectName: "user-api",
+    template,
+    variables,
+    options,
+    files: generateFiles("user-api", template, options),
+  };
+};
+
+/**
+ * The content of a project file, or "" if it was not generated
+ */
+export const content = (structure: ProjectStructure, path: string) =>
+  structure.files.find((file) => file.path === path)?.content ?? "";
@@ -0,0 +1,48 @@
+import { TemplateDefinition, TemplateType } from "../types";
+import {
+  parseTemplateManifest,
+  renderManifest,
+} from "../services/manifestLoader";
+import manifestSource from "./manifests/cli-tool.yaml?raw";
+
+const manifest = parseTemplateManifest(manifestSource, "yaml");
+
+/**
+ * Template for the temp-gen CLI tool itself
+ */
+export const cliToolTemplate: TemplateDefinition = {
+  id: TemplateType.CLI_TOOL,
+  slug: "cli-tool",
+  name: TemplateType.CLI_TOOL,
+  subtitle: "Node.js + Commander",
+  ecosystem: "npm",
+  designDecisions: [
+    {
+      pattern: "Command-Driven Architecture",
+      reason:
+        "Uses CLI framework (Commander) to parse commands, making the tool intuitive and extensible.",
+      benefits: ["User-friendly", "Easy to extend", "Standard CLI patterns"],
+    },
+    {
+      pattern: "Embedded Templates",
+      reason:
+        "Ships each stack's files inside the CLI as data, so the installed binary needs no template directory on disk.",
+      benefits: ["Self-contained", "One entry per stack", "Maintainable"],
+    },
+  ],
+  architecture: {
+    overview:
+      "Node.js CLI tools leverage JavaScript/TypeScript for cross-platform command-line utilities. They're perfect for development tools and automation scripts.",
+    keyFeatures: [
+      "Universal Node.js ecosystem",
+      "Cross-platform compatibility",
+      "Interactive prompts with Node's built-in readline",
+    ],
+    deploymentStrategy:
+      "Publish to npm registry. Users can install globally with npm install -g. Include proper error handling and help documentation.",
+  },
+  variables: manifest.variables,
+  ci: manifest.ci,
+  generate: (variables, contributions) =>
+    renderManifest(manifest, variables, contributions),
+};
@@ -0,0 +1,58 @@
+import { TemplateDefinition, TemplateType } from "../types";
+import {
+  parseTemplateManifest,
+  renderManifest,
+} from "../services/manifestLoader";
+import manifestSource from "./manifests/go-clean-arch.yaml?raw";
+
+const manifest = parseTemplateManifest(manifestSource, "yaml");
+
+/**
+ * Go microservice template following Clean Architecture
+ */
+export const goCleanArchTemplate: TemplateDefinition = {
+  id: TemplateType.GO_CLEAN_ARCH,
+  slug: "go-clean-arch",
+  name: TemplateType.GO_CLEAN_ARCH,
+  subtitle: "Golang + Clean Architecture, choice of router and DI",
+  ecosystem: "go",
+  designDecisions: [
+    {
+      pattern: "Clean Architecture",
+      reason:
+        "Organizes code into concentric layers (domain, usecase, interface) with clear dependency flow.",
+      benefits: ["Framework independence", "Testable", "Scalable"],
+    },
+    {
+      pattern: "Usecase Driven",
+      reason:
+        "Each business operation is encapsulated as a self-contained usecase with defined inputs/outputs.",
+      benefits: ["Business clarity", "Easy to understand", "Atomic operations"],
+    },
+    {
+      pattern: "Provider-Based Composition Root",
+      reason:
+        "Components are built by Wire-style providers in cmd/api, assembled by hand, by Google Wire at compile time or by uber/fx at startup.",
+      benefits: ["Swappable DI style", "Explicit cleanup", "No hidden globals"],
+    },
+  ],
+  architecture: {
+    overview:
+      "Go excels at building efficient, concurrent microservices with minimal resource usage. Its built-in concurrency primitives and fast compilation make it ideal for high-performance services.",
+    keyFeatures: [
+      "Goroutines for efficient concurrency",
+      "Fast compilation to binary",
+      "Built-in testing framework",
+    ],
+    deploymentStrategy:
+      "Compile to a single binary and run directly or containerize with minimal Docker images. Go's static compilation makes deployment straightforward and efficient; the optional Kubernetes manifests or Helm chart probe the health endpoints and autoscale on CPU.",
+  },
+  variables: manifest.variables,
+  env: manifest.env,
+  compose: manifest.compose,
+  ci: manifest.ci,
+  probes: { liveness: "/health/live", readiness: "/health/ready" },
+  apiDocument: "docs/openapi.yaml",
+  generate: (variables, contributions) =>
+    renderManifest(manifest, variables, contributions),
+};
@@ -0,0 +1,15 @@
+import { TemplateDefinition } from "../types";
+import { typescriptExpressTemplate } from "./typescriptExpress";
+import { goCleanArchTemplate } from "./goCleanArch";
+import { cliToolTemplate } from "./cliTool";
+import { pythonFastapiTemplate } from "./pythonFastapi";
+
+/**
+ * Templates shipped with temp-gen, in the order they appear in the picker
+ */
+export const builtInTemplates: TemplateDefinition[] = [
+  typescriptExpressTemplate,
+  goCleanArchTemplate,
+  cliToolTemplate,
+  pythonFastapiTemplate,
+];
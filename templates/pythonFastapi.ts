@@ -0,0 +1,66 @@
+import { TemplateDefinition } from "../types";
+import {
+  parseTemplateManifest,
+  renderManifest,
+} from "../services/manifestLoader";
+import manifestSource from "./manifests/python-fastapi.yaml?raw";
+
+const manifest = parseTemplateManifest(manifestSource, "yaml");
+
+/**
+ * Python/FastAPI microservice template
+ */
+export const pythonFastapiTemplate: TemplateDefinition = {
+  id: "Python/FastAPI",
+  slug: "python-fastapi",
+  name: "Python/FastAPI",
+  subtitle: "FastAPI + Uvicorn + Layered Services",
+  ecosystem: "pypi",
+  designDecisions: [
+    {
+      pattern: "Router / Controller / Service Split",
+      reason:
+        "Routers only map paths, controllers shape HTTP responses and services hold the logic, mirroring the Express template's layering.",
+      benefits: [
+        "Same layout across stacks",
+        "Logic testable without HTTP",
+        "Thin route modules",
+      ],
+    },
+    {
+      pattern: "Application Factory",
+      reason:
+        "create_app() builds a configured FastAPI instance, so tests and the ASGI server get the same middleware and routes.",
+      benefits: [
+        "Isolated test apps",
+        "Explicit wiring",
+        "No import-time side effects in routes",
+      ],
+    },
+    {
+      pattern: "Structured JSON Logging",
+      reason:
+        "A stdlib logging formatter emits one JSON object per line, ready for log aggregation without extra dependencies.",
+      benefits: [
+        "Machine-readable logs",
+        "No logging dependency",
+        "Level set via LOG_LEVEL",
+      ],
+    },
+  ],
+  architecture: {
+    overview:
+      "FastAPI is an ASGI framework built on Starlette and Pydantic. It combines async request handling with type-hint driven validation and generates OpenAPI documentation from the code.",
+    keyFeatures: [
+      "Async and sync handlers on the same event loop",
+      "Request validation and serialization from type hints",
+      "Interactive OpenAPI docs at /docs",
+    ],
+    deploymentStrategy:
+      "Build a slim multi-stage image with dependencies installed into a virtualenv and run Uvicorn as a non-root user. Scale horizontally behind a load balancer; use one worker per container and let the orchestrator add replicas.",
+  },
+  variables: manifest.variables,
+  ci: manifest.ci,
+  generate: (variables, contributions) =>
+    renderManifest(manifest, variables, contributions),
+};
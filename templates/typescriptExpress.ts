@@ -0,0 +1,71 @@
+import { TemplateDefinition, TemplateType } from "../types";
+import {
+  parseTemplateManifest,
+  renderManifest,
+} from "../services/manifestLoader";
+import manifestSource from "./manifests/typescript-express.yaml?raw";
+
+const manifest = parseTemplateManifest(manifestSource, "yaml");
+
+/**
+ * TypeScript/Express microservice template
+ */
+export const typescriptExpressTemplate: TemplateDefinition = {
+  id: TemplateType.TYPESCRIPT_EXPRESS,
+  slug: "typescript-express",
+  name: TemplateType.TYPESCRIPT_EXPRESS,
+  subtitle: "Express + Inversify/tsyringe + DDD",
+  ecosystem: "npm",
+  designDecisions: [
+    {
+      pattern: "Service Layer Pattern",
+      reason:
+        "Separates business logic from HTTP handling, improving testability and reusability.",
+      benefits: [
+        "Easy to test",
+        "Logic reuse across endpoints",
+        "Clear responsibilities",
+      ],
+    },
+    {
+      pattern: "Dependency Injection",
+      reason:
+        "An Inversify container binds services and controllers, which receive their dependencies through constructor injection.",
+      benefits: ["Flexible testing", "Loose coupling", "Runtime configuration"],
+      when: 'di == "inversify"',
+    },
+    {
+      pattern: "Dependency Injection",
+      reason:
+        "A tsyringe container resolves controllers and their services from constructor type metadata.",
+      benefits: ["Flexible testing", "Loose coupling", "Lightweight container"],
+      when: 'di == "tsyringe"',
+    },
+    {
+      pattern: "Constructor Injection",
+      reason:
+        "Controllers receive their services as constructor arguments, wired by hand in createApp without a container.",
+      benefits: ["Flexible testing", "No decorators", "Explicit wiring"],
+      when: 'di == "manual"',
+    },
+  ],
+  architecture: {
+    overview:
+      "Express.js provides a lightweight and flexible framework for building scalable microservices. It offers excellent middleware support and integrates seamlessly with TypeScript for type-safe development.",
+    keyFeatures: [
+      "Middleware-based request handling",
+      "Async/await support for clean async code",
+      "Extensive ecosystem of compatible packages",
+    ],
+    deploymentStrategy:
+      "Deploy as containerized service using Docker, with optional Kubernetes manifests or a Helm chart that probe the health endpoints and autoscale on CPU. Use environment variables for configuration, provided through a ConfigMap and Secret on Kubernetes.",
+  },
+  variables: manifest.variables,
+  env: manifest.env,
+  compose: manifest.compose,
+  ci: manifest.ci,
+  probes: { liveness: "/health/live", readiness: "/health/ready" },
+  apiDocument: "openapi.yaml",
+  generate: (variables, contributions) =>
+    renderManifest(manifest, variables, contributions),
+};
@@ -1,3 +1,8 @@
+/**
+ * Ids of the first built-in templates, for code that needs to name one.
+ * The template registry is the list of templates; registering a new template
+ * needs no entry here.
+ */
 export enum TemplateType {
   TYPESCRIPT_EXPRESS = "TypeScript/Express",
   GO_CLEAN_ARCH = "Go/Clean-Arch",
@@ -12,7 +17,9 @@ export interface GeneratedFile {
 
 export interface ProjectStructure {
   projectName: string;
-  template: TemplateType;
+  template: string;
+  variables: TemplateVariables;
+  options: ProjectOptions;
   files: GeneratedFile[];
 }
 
@@ -25,10 +32,244 @@ export interface ArchitectureInfo {
 export interface ProjectOptions {
   includeTests: boolean;
   includeLinter: boolean;
+  variables: TemplateVariables;
+  features: string[];
 }
 
 export interface DesignDecision {
   pattern: string;
   reason: string;
   benefits: string[];
+  /** Condition over the template variables, e.g. `di == "inversify"` */
+  when?: string;
+}
+
+export type ProjectEcosystem = "npm" | "go" | "pypi";
+
+export interface TemplateDefinition {
+  id: string;
+  slug: string;
+  name: string;
+  subtitle: string;
+  ecosystem: ProjectEcosystem;
+  designDecisions: DesignDecision[];
+  architecture: ArchitectureInfo;
+  variables: TemplateVariableDefinition[];
+  /** Path of the generated OpenAPI document that describes its routes */
+  apiDocument?: string;
+  /** Environment variables the generated service reads at startup */
+  env?: EnvVariable[];
+  /** The docker-compose service that runs it with hot reload */
+  compose?: Record<string, TemplateValue>;
+  /** Liveness and readiness endpoints the generated Kubernetes manifests probe */
+  probes?: HealthProbes;
+  /** Commands the generated CI pipeline runs, rendered like file contents */
+  ci?: CiCommands;
+  generate: (
+    variables: TemplateVariables,
+    contributions: ModuleContributions,
+  ) => GeneratedFile[];
+}
+
+export interface HealthProbes {
+  liveness: string;
+  readiness: string;
+}
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplateVariables = Record<string, TemplateValue>;
+
+export type ManifestFormat = "json" | "yaml";
+
+export type TemplateVariableType = "string" | "number" | "boolean" | "list";
+
+/** Built-in validation for string variables beyond a `pattern` */
+export type TemplateVariableFormat = "go-module-path";
+
+export interface TemplateVariableDefinition {
+  name: string;
+  label: string;
+  type: TemplateVariableType;
+  default: TemplateValue;
+  required?: boolean;
+  pattern?: string;
+  format?: TemplateVariableFormat;
+  min?: number;
+  max?: number;
+  choices?: string[];
+}
+
+export interface ManifestFile {
+  path: string;
+  language: string;
+  content: string;
+  when?: string | string[];
+  render?: boolean;
+}
+
+export interface NpmContribution {
+  when?: string | string[];
+  scripts: Record<string, string>;
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+}
+
+export interface GoContribution {
+  when?: string | string[];
+  require: Record<string, string>;
+}
+
+export interface ModuleContributions {
+  npm: NpmContribution[];
+  go: GoContribution[];
+}
+
+export interface GoModuleManifest {
+  module: string;
+  go: string;
+}
+
+export interface TemplateManifest extends ModuleContributions {
+  variables: TemplateVariableDefinition[];
+  files: ManifestFile[];
+  packageJson?: Record<string, TemplateValue>;
+  goMod?: GoModuleManifest;
+  env: EnvVariable[];
+  compose?: Record<string, TemplateValue>;
+  ci?: CiCommands;
+}
+
+export interface CiCommands {
+  /** Toolchain version: of the setup action on GitHub, the image tag on GitLab */
+  runtime: string;
+  install: string;
+  /** Runs only with includeLinter */
+  lint?: string;
+  /** Runs only with includeTests */
+  test?: string;
+  build?: string;
+}
+
+export interface EnvVariable {
+  name: string;
+  description: string;
+  /** Written to .env.example */
+  default: string;
+  /** The service refuses to start without it */
+  required?: boolean;
+  /** A credential: kept out of the generated Kubernetes ConfigMap */
+  secret?: boolean;
+  compose?: string;
+}
+
+export interface FeatureManifest extends TemplateManifest {
+  services: Record<string, TemplateValue>;
+}
+
+export interface FeatureDefinition {
+  id: string;
+  name: string;
+  description: string;
+  dependsOn: string[];
+  templates: string[];
+  manifest: FeatureManifest;
+}
+
+export type ResourceFieldType = "string" | "number" | "integer" | "boolean";
+
+export interface ResourceField {
+  name: string;
+  type: ResourceFieldType;
+  optional: boolean;
+}
+
+export interface ResourceDefinition {
+  name: string;
+  fields: ResourceField[];
+}
+
+export interface ResourceGenerator {
+  templates: string[];
+  manifest: TemplateManifest;
+  /** Wires the rendered resource into the project's existing files */
+  register: (
+    files: GeneratedFile[],
+    variables: TemplateVariables,
+  ) => GeneratedFile[];
+}
+
+export type ApiPrimitiveType = "string" | "number" | "integer" | "boolean";
+
+/** A schema type; `object` is a free-form map and `unknown` anything at all */
+export type ApiType =
+  | { kind: ApiPrimitiveType | "object" | "unknown" }
+  | { kind: "array"; items: ApiType }
+  | { kind: "ref"; name: string };
+
+export interface ApiProperty {
+  name: string;
+  type: ApiType;
+  optional: boolean;
+}
+
+/** A named schema from components.schemas, or one hoisted from an operation */
+export type ApiSchema = { name: string; description?: string } & (
+  | { kind: "object"; properties: ApiProperty[] }
+  | { kind: "alias"; type: ApiType }
+);
+
+export interface ApiParameter {
+  name: string;
+  in: "path" | "query";
+  type: ApiPrimitiveType;
+  required: boolean;
+}
+
+export type ApiMethod = "get" | "post" | "put" | "patch" | "delete";
+
+export interface ApiOperation {
+  /** camelCase operationId */
+  id: string;
+  method: ApiMethod;
+  /** The path as written in the spec, e.g. /pets/{petId} */
+  path: string;
+  summary?: string;
+  parameters: ApiParameter[];
+  body?: { type: ApiType; required: boolean };
+  response: { status: number; type?: ApiType };
+  /** Whether the spec lists security requirements for the operation */
+  secured: boolean;
+}
+
+export interface ApiDefinition {
+  title: string;
+  version: string;
+  schemas: ApiSchema[];
+  operations: ApiOperation[];
+}
+
+export interface OpenApiGenerator {
+  templates: string[];
+  manifest: TemplateManifest;
+  /**
+   * Paths the project already serves; operations on them are skipped. An
+   * entry ending in / covers its whole subtree, like a net/http pattern.
+   */
+  reservedPaths: (variables: TemplateVariables) => string[];
+  /** Renders the API into the code snippets the manifest lays out */
+  variables: (
+    api: ApiDefinition,
+    variables: TemplateVariables,
+  ) => TemplateVariables;
+  /** Mounts the rendered operations in the project's existing router */
+  register: (
+    files: GeneratedFile[],
+    variables: TemplateVariables,
+  ) => GeneratedFile[];
 }
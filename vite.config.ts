@@ -1,7 +1,23 @@
+import { builtinModules } from "node:module";
 import path from "path";
-import { defineConfig, loadEnv } from "vite";
+import { defineConfig, loadEnv, Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+/**
+ * The consistency checker reads Node's builtin module names from node:module,
+ * which the browser lacks; client code gets the list Vite itself runs with.
+ */
+const nodeBuiltinModules = (): Plugin => ({
+  name: "node-builtin-modules",
+  enforce: "pre",
+  resolveId: (id, _importer, options) =>
+    id === "node:module" && !options?.ssr ? "\0node-builtin-modules" : null,
+  load: (id) =>
+    id === "\0node-builtin-modules"
+      ? `export const builtinModules = ${JSON.stringify(builtinModules)};`
+      : null,
+});
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, ".", "");
   return {
@@ -9,7 +25,7 @@ export default defineConfig(({ mode }) => {
       port: 3000,
       host: "0.0.0.0",
     },
-    plugins: [react()],
+    plugins: [react(), nodeBuiltinModules()],
     resolve: {
       alias: {
         "@": path.resolve(__dirname, "."),